@@ -0,0 +1,528 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { encryptionService } from '../core/EncryptionService';
+import { compressionService } from '../core/CompressionService';
+import { askPassword } from './prompt';
+import type { CompressionAlgorithm, EncryptedFileData, KdfParams, MeldEncryptedFileData } from '../types';
+
+/**
+ * vscode-encrypt: command-line tool for .md.enc files and in-place markers.
+ * It uses the same crypto core as the extension, so files written by either
+ * one open in the other.
+ */
+
+export const PASSWORD_VARIABLE = 'ENCRYPT_PASSWORD';
+export const NEW_PASSWORD_VARIABLE = 'ENCRYPT_NEW_PASSWORD';
+export const KEYFILE_VARIABLE = 'ENCRYPT_KEYFILE';
+
+const USAGE = `Usage: vscode-encrypt <command> [options] <file...>
+
+Commands:
+  encrypt <file.md>       Encrypt to <file.md>.enc (or print a 🔐 marker with --marker)
+  decrypt <file.md.enc>   Write the plaintext next to the file, without .enc
+  cat <file>              Print a decrypted .md.enc file, or text with its markers decrypted
+  rekey <file...>         Change the password of .md.enc files and markers, in place
+  verify <file...>        Check that files and markers decrypt with the password
+
+Options:
+  -o, --output <path>        Output file ("-" for standard output)
+  -f, --force                Overwrite an existing output file
+      --hint <text>          Password hint stored with encrypted content
+                             (rekey keeps existing hints unless it is given)
+      --marker               encrypt: print an in-place marker instead of a file
+      --hidden               encrypt: make the marker a hidden %%🔐…🔐%% comment
+      --keyfile <path>       Keyfile required in addition to the password
+      --password-file <path> Read the password from the first line of a file
+      --new-password-file <path>
+                             Read the new password for rekey from a file
+      --cipher <name>        aes-256-gcm (default) or chacha20-poly1305
+      --kdf <name>           pbkdf2 (default) or scrypt
+      --iterations <n>       PBKDF2 iterations (default 210000)
+      --scrypt-cost <n>      scrypt cost N (default 131072)
+      --compression <name>   none (default), deflate or brotli
+
+Passwords are read from ${PASSWORD_VARIABLE} and ${NEW_PASSWORD_VARIABLE}, or asked
+for on the terminal. ${KEYFILE_VARIABLE} can name the keyfile. Use "-" as the
+file to read standard input.
+`;
+
+/**
+ * Options that take a value; all others are flags
+ */
+const VALUE_OPTIONS = new Set([
+  'output', 'hint', 'keyfile', 'password-file', 'new-password-file',
+  'cipher', 'kdf', 'iterations', 'scrypt-cost', 'compression'
+]);
+const FLAG_OPTIONS = new Set(['force', 'marker', 'hidden', 'help']);
+const SHORT_OPTIONS: Record<string, string> = { o: 'output', f: 'force', h: 'help' };
+
+/**
+ * In-place marker: hidden `%%🔐…🔐%%` (tried first so the `%%` is part of the
+ * match) or visible `🔐…🔐`
+ */
+const MARKER_PATTERN = /%%🔐[^🔐]*🔐%%|🔐[^🔐]*🔐/gu;
+
+/**
+ * Wrong usage; printed with a pointer to --help and exit code 2
+ */
+class UsageError extends Error {}
+
+type Options = Map<string, string | true>;
+
+/**
+ * Split the command line into command, files and options
+ * Throws UsageError for unknown options or missing values
+ */
+function parseArguments(args: string[]): { command?: string; files: string[]; options: Options } {
+  const options: Options = new Map();
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      positional.push(...args.slice(i + 1));
+      break;
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      positional.push(arg);
+      continue;
+    }
+    let name = arg.startsWith('--') ? arg.slice(2) : SHORT_OPTIONS[arg.slice(1)];
+    let value: string | undefined;
+    if (name?.includes('=')) {
+      [name, value] = [name.slice(0, name.indexOf('=')), name.slice(name.indexOf('=') + 1)];
+    }
+    if (name && FLAG_OPTIONS.has(name) && value === undefined) {
+      options.set(name, true);
+    } else if (name && VALUE_OPTIONS.has(name)) {
+      value ??= args[++i];
+      if (value === undefined) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      options.set(name, value);
+    } else {
+      throw new UsageError(`Unknown option ${arg}`);
+    }
+  }
+  return { command: positional[0], files: positional.slice(1), options };
+}
+
+function getString(options: Options, name: string): string | undefined {
+  const value = options.get(name);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Read a whole number option, at least `minimum`
+ */
+function getNumber(options: Options, name: string, fallback: number, minimum: number): number {
+  const value = getString(options, name);
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < minimum) {
+    throw new UsageError(`--${name} must be a whole number of at least ${minimum}`);
+  }
+  return number;
+}
+
+/**
+ * Set the parameters for new encryptions from the options, with the same
+ * defaults and limits as the extension settings
+ */
+function configureEncryption(options: Options): void {
+  const kdfName = getString(options, 'kdf') ?? 'pbkdf2';
+  let kdf: KdfParams;
+  if (kdfName === 'scrypt') {
+    const n = getNumber(options, 'scrypt-cost', 131072, 16384);
+    if ((n & (n - 1)) !== 0) {
+      throw new UsageError('--scrypt-cost must be a power of two');
+    }
+    kdf = { name: 'scrypt', n, r: 8, p: 1 };
+  } else if (kdfName === 'pbkdf2') {
+    kdf = { name: 'pbkdf2', digest: 'sha512', iterations: getNumber(options, 'iterations', 210000, 100000) };
+  } else {
+    throw new UsageError(`Unknown key derivation "${kdfName}" (use pbkdf2 or scrypt)`);
+  }
+
+  try {
+    encryptionService.configure({ cipher: getString(options, 'cipher') ?? 'aes-256-gcm', kdf });
+    compressionService.configure({
+      algorithm: (getString(options, 'compression') ?? 'none') as CompressionAlgorithm | 'none',
+      threshold: 1024
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function readInput(file: string): Promise<Buffer> {
+  if (file !== '-') {
+    return fs.promises.readFile(file);
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write output to a file, or to standard output for "-"
+ * New files are not overwritten without --force; rewritten files are
+ * replaced atomically so an interrupted run leaves the old version
+ */
+async function writeOutput(file: string, content: string, options: Options, replace = false): Promise<void> {
+  if (file === '-') {
+    process.stdout.write(content);
+    return;
+  }
+  if (!replace && !options.has('force') && fs.existsSync(file)) {
+    throw new Error(`${file} already exists (use --force to overwrite)`);
+  }
+  const temporary = path.join(path.dirname(file), `.${path.basename(file)}.${crypto.randomBytes(4).toString('hex')}.tmp`);
+  // Keep the permissions of a replaced file
+  const mode = fs.existsSync(file) ? (await fs.promises.stat(file)).mode & 0o777 : undefined;
+  try {
+    await fs.promises.writeFile(temporary, content, { mode });
+    await fs.promises.rename(temporary, file);
+  } catch (error) {
+    await fs.promises.rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Password source shared by all files of one run, so it is asked for once
+ */
+class PasswordSource {
+  private value?: Promise<string>;
+
+  constructor(
+    private readonly variable: string,
+    private readonly file: string | undefined,
+    private readonly label: string,
+    private readonly confirm: boolean
+  ) {}
+
+  /**
+   * The password from the file, the environment or the terminal
+   * Throws if there is none
+   */
+  get(hint?: string): Promise<string> {
+    this.value ??= this.read(hint);
+    return this.value;
+  }
+
+  private async read(hint?: string): Promise<string> {
+    if (this.file) {
+      return (await fs.promises.readFile(this.file, 'utf8')).split(/\r?\n/)[0];
+    }
+    const fromEnvironment = process.env[this.variable];
+    if (fromEnvironment !== undefined) {
+      return fromEnvironment;
+    }
+
+    const password = await askPassword(hint ? `${this.label} (hint: ${hint}): ` : `${this.label}: `);
+    if (password === undefined) {
+      throw new Error(`No ${this.label.toLowerCase()}: set ${this.variable} or run in a terminal`);
+    }
+    if (!password) {
+      throw new Error(`${this.label} cannot be empty`);
+    }
+    if (this.confirm && await askPassword(`Confirm ${this.label.toLowerCase()}: `) !== password) {
+      throw new Error('Passwords do not match');
+    }
+    return password;
+  }
+}
+
+/**
+ * Everything a command needs besides its files
+ */
+interface Context {
+  options: Options;
+  password: PasswordSource;
+  newPassword: PasswordSource;
+  keyfileHash?: Buffer;
+}
+
+/**
+ * Parse .md.enc or Meld Encrypt .mdenc JSON
+ * Returns undefined for other content
+ */
+function parseEncryptedFile(text: string): EncryptedFileData | MeldEncryptedFileData | undefined {
+  try {
+    const data = JSON.parse(text);
+    if (data && typeof data === 'object' &&
+      (typeof data.ciphertext === 'string' || typeof data.encodedData === 'string')) {
+      return data;
+    }
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+}
+
+/**
+ * Decrypt .md.enc or .mdenc data
+ * Throws if the password (or keyfile) is wrong
+ */
+async function decryptFile(fileData: EncryptedFileData | MeldEncryptedFileData, context: Context): Promise<string> {
+  const password = await context.password.get(fileData.hint || undefined);
+  if (encryptionService.isMeldFileData(fileData)) {
+    const content = await encryptionService.decryptMeldFileData(fileData, password);
+    if (content === null) {
+      throw new Error('wrong password');
+    }
+    return content;
+  }
+  if (fileData.keyfile && !context.keyfileHash) {
+    throw new Error(`needs a keyfile (use --keyfile or set ${KEYFILE_VARIABLE})`);
+  }
+  const content = await encryptionService.decryptFileData(fileData, password, context.keyfileHash);
+  if (content === null) {
+    throw new Error(fileData.slots && !fileData.slots.some(slot => slot.type === 'password')
+      ? 'encrypted for recipients only; open it in VS Code with your identity'
+      : 'wrong password or keyfile');
+  }
+  return content;
+}
+
+/**
+ * Replace every in-place marker in text with the result of `transform`
+ * Text between 🔐 that is not a marker is left alone
+ */
+async function replaceMarkers(
+  text: string,
+  transform: (marker: string, plaintext: string) => Promise<string>,
+  context: Context
+): Promise<{ text: string; count: number }> {
+  let result = '';
+  let offset = 0;
+  let count = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const marker = match[0];
+    const parsed = encryptionService.parseInPlaceEncrypted(marker);
+    if (!parsed) {
+      continue;
+    }
+    const line = text.slice(0, match.index).split('\n').length;
+    const plaintext = await encryptionService.decryptInPlace(marker, await context.password.get(parsed.hint));
+    if (plaintext === null) {
+      throw new Error(`cannot decrypt the marker on line ${line}: wrong password`);
+    }
+    result += text.slice(offset, match.index) + await transform(marker, plaintext);
+    offset = (match.index ?? 0) + marker.length;
+    count++;
+  }
+  return { text: result + text.slice(offset), count };
+}
+
+async function encryptCommand(files: string[], context: Context): Promise<void> {
+  const { options } = context;
+  if (files.length !== 1) {
+    throw new UsageError('encrypt takes one file');
+  }
+  const [file] = files;
+  const content = (await readInput(file)).toString('utf8');
+  const hint = getString(options, 'hint') || undefined;
+
+  if (options.has('marker')) {
+    const marker = await encryptionService.encryptInPlace(
+      content, await context.newPassword.get(), hint, !options.has('hidden')
+    );
+    await writeOutput(getString(options, 'output') ?? '-', `${marker}\n`, options);
+    return;
+  }
+
+  const output = getString(options, 'output') ?? (file.endsWith('.md') ? `${file}.enc` : undefined);
+  if (!output) {
+    throw new UsageError('Name the encrypted file with --output (only .md files get a default name)');
+  }
+  const fileData = await encryptionService.encryptFileContent(
+    content, await context.newPassword.get(), hint, context.keyfileHash
+  );
+  await writeOutput(output, JSON.stringify(fileData, null, 2), options);
+}
+
+async function decryptCommand(files: string[], context: Context): Promise<void> {
+  const { options } = context;
+  if (files.length !== 1) {
+    throw new UsageError('decrypt takes one file');
+  }
+  const [file] = files;
+  const output = getString(options, 'output') ?? (file.endsWith('.enc') ? file.slice(0, -4) : undefined);
+  if (!output) {
+    throw new UsageError('Name the decrypted file with --output');
+  }
+  const fileData = parseEncryptedFile((await readInput(file)).toString('utf8'));
+  if (!fileData) {
+    throw new Error(`${file} is not an encrypted file`);
+  }
+  await writeOutput(output, await decryptFile(fileData, context), options);
+}
+
+async function catCommand(files: string[], context: Context): Promise<void> {
+  if (files.length === 0) {
+    throw new UsageError('cat takes at least one file');
+  }
+  for (const file of files) {
+    const text = (await readInput(file)).toString('utf8');
+    const fileData = parseEncryptedFile(text);
+    const output = fileData
+      ? await decryptFile(fileData, context)
+      : (await replaceMarkers(text, async (_marker, plaintext) => plaintext, context)).text;
+    process.stdout.write(output);
+  }
+}
+
+/**
+ * Re-encrypt one file under the new password
+ * Each file, slot and marker keeps its hint unless --hint is given
+ * Returns the new content, or undefined if the file has nothing encrypted
+ */
+async function rekeyFile(text: string, context: Context): Promise<string | undefined> {
+  const hint = getString(context.options, 'hint');
+  const fileData = parseEncryptedFile(text);
+
+  if (fileData && encryptionService.isMeldFileData(fileData)) {
+    const content = await decryptFile(fileData, context);
+    return JSON.stringify(
+      await encryptionService.encryptMeldFileData(content, await context.newPassword.get(), hint ?? fileData.hint),
+      null,
+      2
+    );
+  }
+  if (fileData) {
+    if (fileData.keyfile && !context.keyfileHash) {
+      throw new Error(`needs a keyfile (use --keyfile or set ${KEYFILE_VARIABLE})`);
+    }
+    const updated = await encryptionService.changeFileDataPassword(
+      fileData,
+      await context.password.get(fileData.hint),
+      await context.newPassword.get(),
+      hint,
+      context.keyfileHash
+    );
+    if (!updated) {
+      throw new Error('wrong password or keyfile');
+    }
+    return JSON.stringify(updated, null, 2);
+  }
+
+  const newPassword = await context.newPassword.get();
+  const result = await replaceMarkers(text, async (marker, plaintext) => {
+    const hidden = marker.startsWith('%%');
+    const parsed = encryptionService.parseInPlaceEncrypted(marker);
+    const markerHint = (hint ?? parsed?.hint) || undefined;
+    return parsed?.meld
+      ? encryptionService.encryptMeldInPlace(plaintext, newPassword, markerHint, hidden)
+      : encryptionService.encryptInPlace(plaintext, newPassword, markerHint, !hidden);
+  }, context);
+  return result.count > 0 ? result.text : undefined;
+}
+
+async function rekeyCommand(files: string[], context: Context): Promise<void> {
+  if (files.length === 0 || files.includes('-')) {
+    throw new UsageError('rekey takes files to rewrite in place');
+  }
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const rewritten = await rekeyFile(await fs.promises.readFile(file, 'utf8'), context);
+      if (rewritten === undefined) {
+        process.stderr.write(`${file}: no encrypted content, left unchanged\n`);
+        continue;
+      }
+      await writeOutput(file, rewritten, context.options, true);
+      process.stdout.write(`${file}: rekeyed\n`);
+    } catch (error) {
+      failures++;
+      process.stderr.write(`${file}: ${error instanceof Error ? error.message : error}\n`);
+    }
+  }
+  if (failures > 0) {
+    throw new Error(`${failures} of ${files.length} file(s) were not rekeyed`);
+  }
+}
+
+async function verifyCommand(files: string[], context: Context): Promise<void> {
+  if (files.length === 0) {
+    throw new UsageError('verify takes at least one file');
+  }
+  let failures = 0;
+  for (const file of files) {
+    try {
+      const text = (await readInput(file)).toString('utf8');
+      const fileData = parseEncryptedFile(text);
+      if (fileData) {
+        await decryptFile(fileData, context);
+        process.stdout.write(`${file}: OK\n`);
+      } else {
+        const { count } = await replaceMarkers(text, async marker => marker, context);
+        process.stdout.write(count > 0 ? `${file}: OK (${count} marker(s))\n` : `${file}: no encrypted content\n`);
+      }
+    } catch (error) {
+      failures++;
+      process.stderr.write(`${file}: ${error instanceof Error ? error.message : error}\n`);
+    }
+  }
+  if (failures > 0) {
+    throw new Error(`${failures} of ${files.length} file(s) failed verification`);
+  }
+}
+
+const COMMANDS: Record<string, (files: string[], context: Context) => Promise<void>> = {
+  encrypt: encryptCommand,
+  decrypt: decryptCommand,
+  cat: catCommand,
+  rekey: rekeyCommand,
+  verify: verifyCommand
+};
+
+/**
+ * Run the tool with command-line arguments (without node and the script)
+ * Resolves to the exit code
+ */
+export async function run(args: string[]): Promise<number> {
+  try {
+    const { command, files, options } = parseArguments(args);
+    if (options.has('help') || !command) {
+      process.stdout.write(USAGE);
+      return command || options.has('help') ? 0 : 2;
+    }
+    const handler = COMMANDS[command];
+    if (!handler) {
+      throw new UsageError(`Unknown command "${command}"`);
+    }
+    configureEncryption(options);
+
+    const keyfile = getString(options, 'keyfile') ?? process.env[KEYFILE_VARIABLE];
+    await handler(files, {
+      options,
+      keyfileHash: keyfile ? encryptionService.hashKeyfile(await fs.promises.readFile(keyfile)) : undefined,
+      password: new PasswordSource(PASSWORD_VARIABLE, getString(options, 'password-file'), 'Password', false),
+      // encrypt takes the password for new content from ENCRYPT_PASSWORD, rekey from ENCRYPT_NEW_PASSWORD
+      newPassword: command === 'rekey'
+        ? new PasswordSource(NEW_PASSWORD_VARIABLE, getString(options, 'new-password-file'), 'New password', true)
+        : new PasswordSource(PASSWORD_VARIABLE, getString(options, 'password-file'), 'Password', true)
+    });
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`vscode-encrypt: ${error.message}\nRun "vscode-encrypt --help" for usage.\n`);
+      return 2;
+    }
+    process.stderr.write(`vscode-encrypt: ${error instanceof Error ? error.message : error}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  void run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
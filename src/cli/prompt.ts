@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as tty from 'tty';
+
+/**
+ * Ask for a password on the controlling terminal without echoing it
+ * Returns undefined without a terminal or if cancelled (Ctrl+C, Ctrl+D)
+ */
+export function askPassword(question: string): Promise<string | undefined> {
+  let fd: number;
+  try {
+    fd = fs.openSync('/dev/tty', 'r+');
+  } catch {
+    return Promise.resolve(undefined);
+  }
+  const input = new tty.ReadStream(fd);
+  const output = new tty.WriteStream(fd);
+  output.write(question);
+  input.setRawMode(true);
+
+  return new Promise(resolve => {
+    let password = '';
+    const finish = (value: string | undefined): void => {
+      input.setRawMode(false);
+      output.write('\n');
+      input.destroy();
+      resolve(value);
+    };
+    input.on('data', (chunk: Buffer) => {
+      for (const char of chunk.toString('utf8')) {
+        if (char === '\r' || char === '\n') {
+          finish(password);
+          return;
+        }
+        if (char === '\u0003' || char === '\u0004') {
+          finish(undefined);
+          return;
+        }
+        password = char === '\u007f' || char === '\b' ? [...password].slice(0, -1).join('') : password + char;
+      }
+    });
+  });
+}
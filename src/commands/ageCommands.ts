@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ageService, AgeFormatError, DEFAULT_AGE_WORK_FACTOR } from '../services/AgeService';
+import { HeaderModifiedError } from '../core/EncryptionService';
+import { passwordService } from '../services/PasswordService';
+import { PasswordPrompt } from '../ui/PasswordPrompt';
+import { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+
+/**
+ * Check if file is an age file
+ */
+export function isAgeFile(filePath: string): boolean {
+  return filePath.endsWith('.age');
+}
+
+/**
+ * scrypt work factor for newly written age files
+ */
+function getWorkFactor(): number {
+  return vscode.workspace.getConfiguration('encrypt').get<number>('ageWorkFactor', DEFAULT_AGE_WORK_FACTOR);
+}
+
+/**
+ * Export the active document as a passphrase-encrypted .age file
+ * (readable with `age -d`)
+ */
+export async function exportAsAge(encryptedFS: EncryptedFileSystem): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showWarningMessage('No active file');
+    return;
+  }
+
+  const document = editor.document;
+  const sourcePath = document.uri.scheme === EncryptedFileSystem.scheme
+    ? encryptedFS.getMeta(document.uri)?.realPath.replace(/\.(enc|age|aes|gpg|pgp|asc)$/, '')
+    : document.uri.scheme === 'file' ? document.uri.fsPath : undefined;
+  const defaultUri = sourcePath
+    ? vscode.Uri.file(`${sourcePath}.age`)
+    : vscode.workspace.workspaceFolders?.[0]?.uri;
+
+  const target = await vscode.window.showSaveDialog({
+    title: 'Export as .age',
+    defaultUri,
+    filters: { age: ['age'] }
+  });
+  if (!target) {
+    return;
+  }
+
+  const passwordResult = await PasswordPrompt.showForEncryption({
+    confirmPassword: true,
+    allowHint: false
+  });
+  if (!passwordResult.confirmed) {
+    return;
+  }
+
+  try {
+    const encrypted = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Encrypting with age…' },
+      () => ageService.encrypt(Buffer.from(document.getText(), 'utf8'), passwordResult.password, getWorkFactor())
+    );
+    await vscode.workspace.fs.writeFile(target, encrypted);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Export failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  vscode.window.showInformationMessage(
+    `Exported to ${path.basename(target.fsPath)}. Decrypt it with "age -d ${path.basename(target.fsPath)}".`
+  );
+}
+
+/**
+ * Decrypt a passphrase-encrypted .age file into memory and open it in the
+ * native editor; saves are encrypted back to the .age file
+ */
+export async function openAgeFile(encryptedFS: EncryptedFileSystem, uri?: vscode.Uri): Promise<void> {
+  let fileUri = uri;
+  if (!fileUri) {
+    const picked = await vscode.window.showOpenDialog({
+      title: 'Open .age File',
+      canSelectMany: false,
+      filters: { age: ['age'] }
+    });
+    fileUri = picked?.[0];
+  }
+  if (!fileUri) {
+    return;
+  }
+
+  const filePath = fileUri.fsPath;
+  if (encryptedFS.hasFile(filePath)) {
+    await vscode.window.showTextDocument(encryptedFS.getVirtualUri(filePath), { preview: false });
+    return;
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = Buffer.from(await vscode.workspace.fs.readFile(fileUri));
+  } catch {
+    vscode.window.showErrorMessage('Failed to read the file.');
+    return;
+  }
+  if (!ageService.isAgeFile(bytes)) {
+    vscode.window.showErrorMessage(`${path.basename(filePath)} is not an age file.`);
+    return;
+  }
+
+  const cached = passwordService.get(filePath);
+  const passwordResult = await PasswordPrompt.showForDecryption({
+    title: `Open ${path.basename(filePath)}`,
+    defaultPassword: cached.password
+  });
+  if (!passwordResult) {
+    return;
+  }
+
+  let plaintext: Buffer | null;
+  try {
+    plaintext = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Decrypting with age…' },
+      () => ageService.decrypt(bytes, passwordResult.password)
+    );
+  } catch (error) {
+    if (error instanceof AgeFormatError || error instanceof HeaderModifiedError) {
+      vscode.window.showErrorMessage(error.message);
+      return;
+    }
+    throw error;
+  }
+  if (plaintext === null) {
+    vscode.window.showErrorMessage('Decryption failed. Wrong passphrase?');
+    return;
+  }
+
+  let content: string;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+  } catch {
+    vscode.window.showErrorMessage(`${path.basename(filePath)} does not contain text. Decrypt it with the age CLI instead.`);
+    return;
+  }
+
+  if (vscode.workspace.getConfiguration('encrypt').get<boolean>('rememberPassword', true)) {
+    passwordService.put(passwordResult, filePath);
+  }
+
+  const virtualUri = encryptedFS.createVirtualFile(filePath, content, {
+    password: passwordResult.password,
+    hint: '',
+    format: { name: 'age', workFactor: getWorkFactor() }
+  });
+  const document = await vscode.workspace.openTextDocument(virtualUri);
+  await vscode.window.showTextDocument(document, { preview: false });
+}
@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { conflictService } from '../services/ConflictService';
+import { passwordService } from '../services/PasswordService';
+import { keyringService } from '../services/KeyringService';
+import { keyfileService } from '../services/KeyfileService';
+import { recipientService } from '../services/RecipientService';
+import { PasswordPrompt } from '../ui/PasswordPrompt';
+import { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+import type { FileCredentials } from '../providers/EncryptedFileSystem';
+import type { EncryptedFileData, MeldEncryptedFileData } from '../types';
+
+/**
+ * One version of a conflicted encrypted file
+ */
+interface ConflictVersion {
+  /** Shown in tab titles, e.g. "HEAD" or "Ann's conflicted copy 2024-05-01" */
+  label: string;
+  fileData: EncryptedFileData | MeldEncryptedFileData;
+}
+
+/**
+ * A version decrypted, with the secrets that opened it
+ */
+interface UnlockedVersion extends ConflictVersion {
+  content: string;
+  credentials: FileCredentials;
+}
+
+/**
+ * Encrypted file behind the active tab: the unlock screen, a text editor or
+ * an encfs:// document
+ */
+function getActiveFilePath(encryptedFS: EncryptedFileSystem): string | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (editor?.document.uri.scheme === EncryptedFileSystem.scheme) {
+    return encryptedFS.getMeta(editor.document.uri)?.realPath;
+  }
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (input instanceof vscode.TabInputCustom) {
+    return input.uri.fsPath;
+  }
+  return editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+}
+
+/**
+ * Versions of a file: both sides of git conflict markers, or the file and
+ * its sync conflict copies
+ * Throws if a version is not a valid encrypted file
+ */
+async function readVersions(filePath: string): Promise<{ versions: ConflictVersion[]; copies: string[] }> {
+  const read = async (file: string): Promise<string> =>
+    new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(file)));
+  const parse = (json: string, label: string): EncryptedFileData | MeldEncryptedFileData => {
+    try {
+      return JSON.parse(json);
+    } catch {
+      throw new Error(`The ${label} version is not a valid encrypted file`);
+    }
+  };
+
+  const text = await read(filePath);
+  if (conflictService.hasConflictMarkers(text)) {
+    const sides = conflictService.splitConflict(text);
+    if (!sides) {
+      throw new Error(`${path.basename(filePath)} has incomplete conflict markers`);
+    }
+    return {
+      versions: [
+        { label: sides.oursLabel, fileData: parse(sides.ours, sides.oursLabel) },
+        { label: sides.theirsLabel, fileData: parse(sides.theirs, sides.theirsLabel) }
+      ],
+      copies: []
+    };
+  }
+
+  const copies = await conflictService.findConflictCopies(filePath);
+  const versions: ConflictVersion[] = [{ label: 'current', fileData: parse(text, 'current') }];
+  for (const copy of copies) {
+    const label = conflictService.getCopyTag(copy) ?? path.basename(copy);
+    versions.push({ label, fileData: parse(await read(copy), label) });
+  }
+  return { versions, copies };
+}
+
+/**
+ * Decrypt one version, trying the private key, the secrets of the version
+ * unlocked before and the remembered password before asking
+ * Returns null if the user cancelled
+ */
+async function unlockVersion(
+  filePath: string,
+  version: ConflictVersion,
+  known?: FileCredentials
+): Promise<UnlockedVersion | null> {
+  const { fileData } = version;
+  const meld = encryptionService.isMeldFileData(fileData);
+  const hint = fileData.hint ?? '';
+
+  if (!meld && encryptionService.hasRecipients(fileData)) {
+    const privateKey = await recipientService.readIdentity().catch(() => undefined);
+    const opened = privateKey && encryptionService.openFileDataWithIdentity(fileData, privateKey);
+    if (opened) {
+      return { ...version, content: opened.content, credentials: { password: '', hint, dataKey: opened.dataKey } };
+    }
+  }
+
+  const keyfile = !meld && fileData.keyfile ? known?.keyfile ?? await keyfileService.resolve(filePath) : undefined;
+  if (keyfile === null) {
+    return null;
+  }
+  const open = async (password: string): Promise<UnlockedVersion | null> => {
+    const opened = meld
+      ? { content: await encryptionService.decryptMeldFileData(fileData, password), dataKey: undefined }
+      : await encryptionService.openFileData(fileData, password, keyfile?.keyfileHash);
+    if (!opened || opened.content === null) {
+      return null;
+    }
+    return {
+      ...version,
+      content: opened.content,
+      credentials: {
+        password,
+        hint,
+        keyfile,
+        dataKey: opened.dataKey,
+        format: meld ? { name: 'mdenc' } : undefined
+      }
+    };
+  };
+
+  const cached = passwordService.get(filePath, meld ? [] : encryptionService.getFileKeyIds(fileData));
+  for (const password of new Set([known?.password, cached.password])) {
+    const unlocked = password ? await open(password) : null;
+    if (unlocked) {
+      return unlocked;
+    }
+  }
+
+  while (true) {
+    const passwordResult = await PasswordPrompt.showForDecryption({
+      title: `Unlock ${path.basename(filePath)} (${version.label})`,
+      hint
+    });
+    if (!passwordResult) {
+      return null;
+    }
+    const unlocked = await open(passwordResult.password);
+    if (unlocked) {
+      if (vscode.workspace.getConfiguration('encrypt').get<boolean>('rememberPassword', true)) {
+        passwordService.put({ ...passwordResult, keyfile: keyfile?.keyfile }, filePath);
+      }
+      if (!meld) {
+        await keyringService.add(passwordResult.password, vscode.workspace.asRelativePath(filePath));
+      }
+      return unlocked;
+    }
+    vscode.window.showErrorMessage(keyfile ? 'Decryption failed. Wrong password or keyfile?' : 'Decryption failed. Wrong password?');
+  }
+}
+
+/**
+ * Resolve a conflicted encrypted file: git conflict markers inside a .md.enc
+ * file, or conflicting copies from Dropbox, Nextcloud or Syncthing. Every
+ * version is decrypted in memory and diffed against an editable result;
+ * saving the result encrypts it over the file and removes the copies.
+ */
+export async function resolveConflict(encryptedFS: EncryptedFileSystem, uri?: vscode.Uri): Promise<void> {
+  const target = uri?.fsPath ?? getActiveFilePath(encryptedFS);
+  if (!target) {
+    vscode.window.showWarningMessage('No encrypted file to resolve');
+    return;
+  }
+  const filePath = conflictService.getOriginalPath(target) ?? target;
+  const name = path.basename(filePath);
+  // An open decrypted copy becomes the result, so unsaved edits are kept
+  const openMeta = encryptedFS.getMeta(encryptedFS.getVirtualUri(filePath));
+
+  let versions: ConflictVersion[];
+  let copies: string[];
+  try {
+    ({ versions, copies } = await readVersions(filePath));
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read ${name}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+  if (versions.length < 2) {
+    vscode.window.showInformationMessage(`${name} has no conflict to resolve.`);
+    return;
+  }
+  const gitConflict = copies.length === 0;
+  if (openMeta && gitConflict) {
+    // It was decrypted before the merge and may not match either side
+    vscode.window.showWarningMessage(`Close the decrypted ${name} before resolving its conflict.`);
+    return;
+  }
+
+  const unlocked: UnlockedVersion[] = [];
+  try {
+    for (const version of versions) {
+      const result = await unlockVersion(filePath, version, unlocked[0]?.credentials ?? openMeta);
+      if (!result) {
+        vscode.window.showInformationMessage('Conflict resolution cancelled');
+        return;
+      }
+      unlocked.push(result);
+    }
+  } catch (error) {
+    // Includes HeaderModifiedError for tampered versions
+    vscode.window.showErrorMessage(`Cannot decrypt ${name}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  // The result starts from the first version; the others are read-only snapshots
+  const [ours, ...others] = unlocked;
+  let resultUri: vscode.Uri;
+  if (openMeta) {
+    encryptedFS.updateMeta(filePath, { conflict: { copies } });
+    resultUri = encryptedFS.getVirtualUri(filePath);
+  } else {
+    resultUri = encryptedFS.createVirtualFile(filePath, ours.content, {
+      ...ours.credentials,
+      conflict: {
+        fileData: gitConflict && !encryptionService.isMeldFileData(ours.fileData) ? ours.fileData : undefined,
+        copies
+      }
+    });
+  }
+  await vscode.languages.setTextDocumentLanguage(await vscode.workspace.openTextDocument(resultUri), 'markdown');
+
+  for (const other of others) {
+    const label = other.label.replace(/[\\/:*?"<>|]/g, '-');
+    const snapshotUri = encryptedFS.createPreviewFile(
+      filePath.replace(/(\.md\.enc|\.mdenc)$/, ` (${label})$1`),
+      new TextEncoder().encode(other.content)
+    );
+    await vscode.languages.setTextDocumentLanguage(await vscode.workspace.openTextDocument(snapshotUri), 'markdown');
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      snapshotUri,
+      resultUri,
+      `${name}: ${other.label} ↔ ${ours.label} (result)`,
+      { preview: false }
+    );
+  }
+
+  vscode.window.showInformationMessage(
+    gitConflict
+      ? `Merge the changes into the right side and save to encrypt the result over ${name}.`
+      : `Merge the changes into the right side and save: ${name} is encrypted and the conflicted copies are removed.`
+  );
+}
@@ -1,10 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
-import { encryptionService } from '../services/EncryptionService';
+import * as fs from 'fs';
+import { encryptionService } from '../core/EncryptionService';
 import { passwordService } from '../services/PasswordService';
+import { keyfileService } from '../services/KeyfileService';
+import { streamEncryptionService, StreamAuthenticationError } from '../services/StreamEncryptionService';
+import { KdfCancelledError } from '../core/KeyDerivationService';
+import { openSslService, DEFAULT_OPENSSL_ITERATIONS } from '../services/OpenSslService';
+import { openPgpService } from '../services/OpenPgpService';
+import { keyringService } from '../services/KeyringService';
+import { policyService } from '../services/PolicyService';
 import { PasswordPrompt } from '../ui/PasswordPrompt';
-import type { EncryptedFileData, EncryptConfiguration } from '../types';
+import type { PasswordPromptResult } from '../ui/PasswordPrompt';
+import type { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+import type { EncryptedFileData, EncryptConfiguration, ExternalFormat, StreamHeader } from '../types';
+
+/**
+ * Largest binary file decrypted into memory for preview
+ */
+const MAX_PREVIEW_SIZE = 64 * 1024 * 1024;
 
 /**
  * Get plugin configuration
@@ -28,6 +43,66 @@ export function isEncryptedFile(filePath: string): boolean {
   return filePath.endsWith('.md.enc');
 }
 
+/**
+ * Check if file may be an encrypted binary file (chunked format, any other .enc)
+ */
+export function isEncryptedBinaryFile(filePath: string): boolean {
+  return filePath.endsWith('.enc') && !isEncryptedFile(filePath);
+}
+
+/**
+ * Detect files from `openssl enc` (.enc or .aes starting with "Salted__") and
+ * `gpg --symmetric` (.gpg, .pgp or .asc holding an OpenPGP message)
+ */
+async function detectExternalFormat(fileUri: vscode.Uri): Promise<'openssl' | 'openpgp' | undefined> {
+  const extension = path.extname(fileUri.fsPath);
+  if (fileUri.scheme !== 'file' || isEncryptedFile(fileUri.fsPath) ||
+    !['.enc', '.aes', '.gpg', '.pgp', '.asc'].includes(extension)) {
+    return undefined;
+  }
+
+  let head: Buffer;
+  try {
+    const handle = await fs.promises.open(fileUri.fsPath, 'r');
+    try {
+      head = Buffer.alloc(64);
+      const { bytesRead } = await handle.read(head, 0, head.length, 0);
+      head = head.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return undefined;
+  }
+
+  if (extension === '.enc' || extension === '.aes') {
+    return openSslService.isOpenSslFormat(head) ? 'openssl' : undefined;
+  }
+  return openPgpService.isOpenPgpMessage(head) ? 'openpgp' : undefined;
+}
+
+/**
+ * PBKDF2 iterations for files written in the openssl enc format
+ */
+function getOpenSslIterations(): number {
+  return vscode.workspace.getConfiguration('encrypt').get<number>('opensslIterations', DEFAULT_OPENSSL_ITERATIONS);
+}
+
+/**
+ * URI of the file shown in the active tab (text editor, image preview, ...)
+ */
+function getActiveFileUri(): vscode.Uri | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (editor) {
+    return editor.document.uri;
+  }
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (input instanceof vscode.TabInputText || input instanceof vscode.TabInputCustom) {
+    return input.uri;
+  }
+  return undefined;
+}
+
 /**
  * Create a new encrypted file
  * @param uri Optional URI of the selected folder to create the file in
@@ -91,27 +166,29 @@ export async function createEncryptedFile(uri?: vscode.Uri): Promise<void> {
 
   // Get password
   const filePath = fileUri.fsPath;
-  const cached = passwordService.get(filePath);
-
-  const passwordResult = await PasswordPrompt.showForEncryption({
-    confirmPassword: config.confirmPassword,
-    defaultPassword: cached.password,
-    defaultHint: cached.hint
-  });
+  if (!await isEncryptionAllowed(filePath)) {
+    return;
+  }
+  const passwordResult = await getNewFilePassword(filePath, config);
 
   if (!passwordResult.confirmed) {
     return;
   }
 
+  const keyfileHash = await hashChosenKeyfile(passwordResult.keyfile);
+  if (keyfileHash === null) {
+    return;
+  }
+
   // Create encrypted file
-  const fileData = encryptionService.encryptFileContent('', passwordResult.password, passwordResult.hint);
+  const fileData = await encryptionService.encryptFileContent('', passwordResult.password, passwordResult.hint, keyfileHash);
   const encryptedContent = JSON.stringify(fileData, null, 2);
 
   const encoder = new TextEncoder();
   await vscode.workspace.fs.writeFile(fileUri, encoder.encode(encryptedContent));
 
-  // Cache password
-  if (config.rememberPassword) {
+  // Cache password (keyring passwords are looked up by key ID instead)
+  if (config.rememberPassword && !passwordResult.fromKeyring) {
     passwordService.put(passwordResult, filePath);
   }
 
@@ -124,23 +201,33 @@ export async function createEncryptedFile(uri?: vscode.Uri): Promise<void> {
 
 /**
  * Encrypt current file
+ * Markdown files become .md.enc; any other file uses the chunked binary format.
+ * @param uri Optional URI of the file selected in the explorer
  */
-export async function encryptCurrentFile(): Promise<void> {
-  const editor = vscode.window.activeTextEditor;
-  if (!editor) {
+export async function encryptCurrentFile(uri?: vscode.Uri): Promise<void> {
+  const fileUri = uri ?? getActiveFileUri();
+  if (!fileUri) {
     vscode.window.showWarningMessage('No active file to encrypt');
     return;
   }
 
-  const document = editor.document;
-  const filePath = document.uri.fsPath;
-
   // Check if already encrypted
-  if (isEncryptedFile(filePath)) {
+  if (isEncryptedFile(fileUri.fsPath) || isEncryptedBinaryFile(fileUri.fsPath)) {
     vscode.window.showWarningMessage('File is already encrypted');
     return;
   }
 
+  if (!fileUri.fsPath.endsWith('.md')) {
+    await encryptBinaryFile(fileUri);
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(fileUri);
+  const filePath = document.uri.fsPath;
+  if (!await isEncryptionAllowed(filePath)) {
+    return;
+  }
+
   // Confirm before encrypting
   const confirm = await vscode.window.showWarningMessage(
     `This will encrypt the file "${path.basename(filePath)}". The original file will be replaced with an encrypted version. Continue?`,
@@ -152,24 +239,28 @@ export async function encryptCurrentFile(): Promise<void> {
   }
 
   const config = getConfiguration();
-  const cached = passwordService.get(filePath);
-
-  const passwordResult = await PasswordPrompt.showForEncryption({
-    confirmPassword: config.confirmPassword,
-    defaultPassword: cached.password,
-    defaultHint: cached.hint
-  });
+  const passwordResult = await getNewFilePassword(filePath, config);
 
   if (!passwordResult.confirmed) {
     return;
   }
 
+  const keyfileHash = await hashChosenKeyfile(passwordResult.keyfile);
+  if (keyfileHash === null) {
+    return;
+  }
+
   // Encrypt file content
   const content = document.getText();
-  const fileData = encryptionService.encryptFileContent(content, passwordResult.password, passwordResult.hint);
+  const fileData = await encryptionService.encryptFileContent(
+    content,
+    passwordResult.password,
+    passwordResult.hint,
+    keyfileHash
+  );
 
   // Create encrypted file path
-  const encryptedPath = filePath + (filePath.endsWith('.md') ? 'enc' : '.enc');
+  const encryptedPath = filePath + '.enc';
 
   // Write encrypted file
   const encryptedUri = vscode.Uri.file(encryptedPath);
@@ -177,8 +268,8 @@ export async function encryptCurrentFile(): Promise<void> {
   const encoder = new TextEncoder();
   await vscode.workspace.fs.writeFile(encryptedUri, encoder.encode(encryptedContent));
 
-  // Cache password
-  if (config.rememberPassword) {
+  // Cache password (keyring passwords are looked up by key ID instead)
+  if (config.rememberPassword && !passwordResult.fromKeyring) {
     passwordService.put(passwordResult, encryptedPath);
   }
 
@@ -203,11 +294,22 @@ export async function encryptCurrentFile(): Promise<void> {
  * Decrypt current file or specified file
  * @param uri Optional URI of the file to decrypt (for context menu)
  */
-export async function decryptCurrentFile(uri?: vscode.Uri): Promise<void> {
+export async function decryptCurrentFile(uri: vscode.Uri | undefined, encryptedFS: EncryptedFileSystem): Promise<void> {
   let fileUri: vscode.Uri;
   let filePath: string;
   let fileContent: string;
 
+  const binaryUri = uri ?? getActiveFileUri();
+  const externalFormat = binaryUri && await detectExternalFormat(binaryUri);
+  if (binaryUri && externalFormat) {
+    await decryptExternalFile(binaryUri, externalFormat, encryptedFS);
+    return;
+  }
+  if (binaryUri && isEncryptedBinaryFile(binaryUri.fsPath)) {
+    await decryptBinaryFile(binaryUri, encryptedFS);
+    return;
+  }
+
   // Determine file source: URI parameter or active editor
   if (uri) {
     fileUri = uri;
@@ -242,7 +344,7 @@ export async function decryptCurrentFile(uri?: vscode.Uri): Promise<void> {
   }
 
   const config = getConfiguration();
-  const cached = passwordService.get(filePath);
+  const cached = passwordService.get(filePath, encryptionService.getFileKeyIds(fileData));
 
   // Prompt for password
   const passwordResult = await PasswordPrompt.showForDecryption({
@@ -254,16 +356,28 @@ export async function decryptCurrentFile(uri?: vscode.Uri): Promise<void> {
     return;
   }
 
-  const decryptedContent = encryptionService.decryptFileData(fileData, passwordResult.password);
+  const keyfile = fileData.keyfile ? await keyfileService.resolve(filePath) : undefined;
+  if (keyfile === null) {
+    return;
+  }
+
+  let decryptedContent: string | null;
+  try {
+    decryptedContent = await encryptionService.decryptFileData(fileData, passwordResult.password, keyfile?.keyfileHash);
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return;
+  }
   if (decryptedContent === null) {
-    vscode.window.showErrorMessage('Decryption failed. Wrong password?');
+    vscode.window.showErrorMessage(keyfile ? 'Decryption failed. Wrong password or keyfile?' : 'Decryption failed. Wrong password?');
     return;
   }
 
   // Cache password
   if (config.rememberPassword) {
-    passwordService.put(passwordResult, filePath);
+    passwordService.put({ ...passwordResult, keyfile: keyfile?.keyfile }, filePath);
   }
+  await keyringService.add(passwordResult.password, vscode.workspace.asRelativePath(filePath));
 
   // Ask user how to decrypt: to memory (default) or to file
   const decryptOption = await vscode.window.showQuickPick(
@@ -279,6 +393,16 @@ export async function decryptCurrentFile(uri?: vscode.Uri): Promise<void> {
         description: 'Create a .md file on disk (may be committed to Git)',
         detail: 'The decrypted content will be saved as a regular file',
         value: 'file'
+      },
+      {
+        label: '$(export) Export as OpenPGP (gpg)',
+        description: 'Password-encrypted copy readable with "gpg -d"',
+        value: 'openpgp'
+      },
+      {
+        label: '$(export) Export as OpenSSL',
+        description: 'Copy readable with "openssl enc -d -aes-256-cbc -pbkdf2"',
+        value: 'openssl'
       }
     ],
     {
@@ -294,12 +418,253 @@ export async function decryptCurrentFile(uri?: vscode.Uri): Promise<void> {
   if (decryptOption.value === 'memory') {
     // Decrypt to virtual document (memory only, never written to disk)
     await decryptToMemory(filePath, decryptedContent);
-  } else {
+  } else if (decryptOption.value === 'file') {
     // Decrypt to file (original behavior)
+    if (!await isDecryptToFileAllowed(filePath)) {
+      return;
+    }
     await decryptToFile(fileUri, filePath, decryptedContent);
+  } else {
+    await exportToExternalFormat(
+      filePath.replace(/\.enc$/, ''),
+      decryptedContent,
+      decryptOption.value === 'openpgp' ? 'openpgp' : 'openssl'
+    );
   }
 }
 
+/**
+ * Write decrypted content as an OpenPGP message or openssl enc file
+ * with a new password
+ */
+async function exportToExternalFormat(
+  plainPath: string,
+  content: string,
+  format: 'openpgp' | 'openssl'
+): Promise<void> {
+  const target = await vscode.window.showSaveDialog({
+    title: format === 'openpgp' ? 'Export as OpenPGP' : 'Export as OpenSSL',
+    defaultUri: vscode.Uri.file(`${plainPath}${format === 'openpgp' ? '.gpg' : '.aes'}`),
+    filters: format === 'openpgp'
+      ? { openpgp: ['gpg', 'pgp', 'asc'] }
+      : { openssl: ['aes', 'enc'] }
+  });
+  if (!target) {
+    return;
+  }
+
+  const passwordResult = await PasswordPrompt.showForEncryption({
+    confirmPassword: true,
+    allowHint: false
+  });
+  if (!passwordResult.confirmed) {
+    return;
+  }
+
+  const plaintext = Buffer.from(content, 'utf8');
+  try {
+    const encrypted = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Encrypting ${path.basename(target.fsPath)}…` },
+      () => format === 'openpgp'
+        ? openPgpService.encrypt(plaintext, passwordResult.password, {
+          armor: target.fsPath.endsWith('.asc'),
+          filename: path.basename(plainPath)
+        })
+        : openSslService.encrypt(plaintext, passwordResult.password, { iterations: getOpenSslIterations() })
+    );
+    await vscode.workspace.fs.writeFile(target, encrypted);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Export failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const name = path.basename(target.fsPath);
+  vscode.window.showInformationMessage(format === 'openpgp'
+    ? `Exported to ${name}. Decrypt it with "gpg -d ${name}".`
+    : `Exported to ${name}. Decrypt it with "openssl enc -d -aes-256-cbc -pbkdf2 -iter ${getOpenSslIterations()} -in ${name}".`
+  );
+}
+
+/**
+ * Decrypt a file from `openssl enc` or `gpg --symmetric`, then open it in
+ * memory, re-encrypt it as .md.enc, or write the plaintext to disk
+ */
+async function decryptExternalFile(
+  fileUri: vscode.Uri,
+  formatName: 'openssl' | 'openpgp',
+  encryptedFS: EncryptedFileSystem
+): Promise<void> {
+  const filePath = fileUri.fsPath;
+  if (encryptedFS.hasFile(filePath)) {
+    await vscode.window.showTextDocument(encryptedFS.getVirtualUri(filePath), { preview: false });
+    return;
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = Buffer.from(await vscode.workspace.fs.readFile(fileUri));
+  } catch {
+    vscode.window.showErrorMessage('Failed to read the file.');
+    return;
+  }
+
+  const config = getConfiguration();
+  const cached = passwordService.get(filePath);
+  const passwordResult = await PasswordPrompt.showForDecryption({
+    title: `Decrypt ${path.basename(filePath)}`,
+    defaultPassword: cached.password
+  });
+  if (!passwordResult) {
+    return;
+  }
+
+  // Saves in memory write the file back in the format it came in
+  const format: ExternalFormat = formatName === 'openssl'
+    ? { name: 'openssl', iterations: getOpenSslIterations(), base64: bytes.toString('latin1', 0, 8) !== 'Salted__' }
+    : { name: 'openpgp', armor: !(bytes[0] & 0x80) };
+  let plaintext: Buffer | null;
+  try {
+    plaintext = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Decrypting ${path.basename(filePath)}…` },
+      async () => format.name === 'openssl'
+        ? openSslService.decrypt(bytes, passwordResult.password, format.iterations)
+        : (await openPgpService.decrypt(bytes, passwordResult.password))?.data ?? null
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Decryption failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+  if (plaintext === null) {
+    vscode.window.showErrorMessage('Decryption failed. Wrong password?');
+    return;
+  }
+
+  let content: string | undefined;
+  try {
+    content = new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+  } catch {
+    content = undefined;
+  }
+
+  // openssl enc is not authenticated: a wrong password sometimes yields
+  // garbage with valid padding, so only text output proves the password
+  const authenticated = format.name === 'openpgp';
+  if (config.rememberPassword && (authenticated || content !== undefined)) {
+    passwordService.put({ password: passwordResult.password, hint: '' }, filePath);
+  }
+
+  const decryptOption = await vscode.window.showQuickPick(
+    [
+      {
+        label: '$(eye) Open in Memory',
+        description: `Editable, saves are encrypted back to ${path.basename(filePath)}`,
+        value: 'memory'
+      },
+      {
+        label: '$(lock) Re-encrypt as .md.enc',
+        description: 'Convert to this extension\'s authenticated format',
+        value: 'reencrypt'
+      },
+      {
+        label: '$(file) Decrypt to File',
+        description: 'Write the plaintext to disk (may be committed to Git)',
+        value: 'file'
+      }
+    ].filter(option => option.value === 'file' || content !== undefined),
+    {
+      placeHolder: 'How would you like to decrypt this file?',
+      title: 'Decrypt Options'
+    }
+  );
+  if (!decryptOption) {
+    return;
+  }
+
+  const plainPath = filePath.replace(/\.(enc|aes|gpg|pgp|asc)$/, '');
+  if (decryptOption.value === 'memory' && content !== undefined) {
+    const virtualUri = encryptedFS.createVirtualFile(filePath, content, {
+      password: passwordResult.password,
+      hint: '',
+      format
+    });
+    const document = await vscode.workspace.openTextDocument(virtualUri);
+    await vscode.window.showTextDocument(document, { preview: false });
+  } else if (decryptOption.value === 'reencrypt' && content !== undefined) {
+    await reencryptAsMdEnc(fileUri, plainPath.replace(/(\.md)?$/, '.md.enc'), content, passwordResult.password);
+  } else {
+    if (!await isDecryptToFileAllowed(filePath) || !await confirmOverwrite(plainPath)) {
+      return;
+    }
+    await vscode.workspace.fs.writeFile(vscode.Uri.file(plainPath), plaintext);
+    // Without authentication the output may be garbage, so the original is never offered for deletion
+    const choice = await vscode.window.showWarningMessage(
+      `⚠️ Decrypted file "${path.basename(plainPath)}" created. Be careful not to commit it to Git!`,
+      ...authenticated ? ['Delete Encrypted', 'Keep Both', 'Add to .gitignore'] : ['Keep Both', 'Add to .gitignore']
+    );
+    if (choice === 'Delete Encrypted') {
+      await vscode.workspace.fs.delete(fileUri);
+      vscode.window.showInformationMessage('Encrypted file deleted');
+    } else if (choice === 'Add to .gitignore') {
+      await addToGitignore(plainPath);
+    }
+  }
+}
+
+/**
+ * Encrypt content decrypted from a foreign format into a new .md.enc file
+ */
+async function reencryptAsMdEnc(
+  sourceUri: vscode.Uri,
+  encryptedPath: string,
+  content: string,
+  password: string
+): Promise<void> {
+  if (!await isEncryptionAllowed(encryptedPath) || !await confirmOverwrite(encryptedPath)) {
+    return;
+  }
+
+  const config = getConfiguration();
+  const passwordResult = await PasswordPrompt.showForEncryption({
+    confirmPassword: config.confirmPassword,
+    defaultPassword: password,
+    allowKeyfile: true
+  });
+  if (!passwordResult.confirmed) {
+    return;
+  }
+
+  const keyfileHash = await hashChosenKeyfile(passwordResult.keyfile);
+  if (keyfileHash === null) {
+    return;
+  }
+
+  const fileData = await encryptionService.encryptFileContent(
+    content,
+    passwordResult.password,
+    passwordResult.hint,
+    keyfileHash
+  );
+  const encryptedUri = vscode.Uri.file(encryptedPath);
+  await vscode.workspace.fs.writeFile(encryptedUri, new TextEncoder().encode(JSON.stringify(fileData, null, 2)));
+
+  if (config.rememberPassword) {
+    passwordService.put(passwordResult, encryptedPath);
+  }
+
+  const newDocument = await vscode.workspace.openTextDocument(encryptedUri);
+  await vscode.window.showTextDocument(newDocument);
+
+  const deleteOriginal = await vscode.window.showWarningMessage(
+    `Delete original file "${path.basename(sourceUri.fsPath)}"?`,
+    'Delete', 'Keep'
+  );
+  if (deleteOriginal === 'Delete') {
+    await vscode.workspace.fs.delete(sourceUri);
+  }
+
+  vscode.window.showInformationMessage(`Re-encrypted as ${path.basename(encryptedPath)}`);
+}
+
 /**
  * Decrypt content to a virtual document in memory
  * This document is never written to disk, safe from Git commits
@@ -362,6 +727,182 @@ async function decryptToFile(fileUri: vscode.Uri, filePath: string, decryptedCon
   }
 }
 
+/**
+ * Encrypt any file with the chunked binary format, streaming from disk to disk
+ */
+async function encryptBinaryFile(fileUri: vscode.Uri): Promise<void> {
+  if (fileUri.scheme !== 'file') {
+    vscode.window.showWarningMessage('Only files on disk can be encrypted');
+    return;
+  }
+  const filePath = fileUri.fsPath;
+  const encryptedPath = filePath + '.enc';
+  if (!await isEncryptionAllowed(filePath)) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `This will encrypt the file "${path.basename(filePath)}" to "${path.basename(encryptedPath)}". Continue?`,
+    'Encrypt', 'Cancel'
+  );
+  if (confirm !== 'Encrypt') {
+    return;
+  }
+  if (!await confirmOverwrite(encryptedPath)) {
+    return;
+  }
+
+  const config = getConfiguration();
+  const passwordResult = await getNewFilePassword(filePath, config);
+  if (!passwordResult.confirmed) {
+    return;
+  }
+
+  const keyfileHash = await hashChosenKeyfile(passwordResult.keyfile);
+  if (keyfileHash === null) {
+    return;
+  }
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Encrypting ${path.basename(filePath)}…` },
+      () => streamEncryptionService.encryptFile(filePath, encryptedPath, passwordResult.password, {
+        hint: passwordResult.hint,
+        keyfileHash
+      })
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Encryption failed: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  // Cache password (keyring passwords are looked up by key ID instead)
+  if (config.rememberPassword && !passwordResult.fromKeyring) {
+    passwordService.put(passwordResult, encryptedPath);
+  }
+
+  const deleteOriginal = await vscode.window.showWarningMessage(
+    `Delete original file "${path.basename(filePath)}"?`,
+    'Delete', 'Keep'
+  );
+  if (deleteOriginal === 'Delete') {
+    await vscode.workspace.fs.delete(fileUri);
+  }
+
+  vscode.window.showInformationMessage('File encrypted successfully');
+}
+
+/**
+ * Decrypt a chunked binary file to disk or into an in-memory preview
+ */
+async function decryptBinaryFile(fileUri: vscode.Uri, encryptedFS: EncryptedFileSystem): Promise<void> {
+  const filePath = fileUri.fsPath;
+  let header: StreamHeader;
+  try {
+    header = (await streamEncryptionService.readHeader(filePath)).header;
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid encrypted file format: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  const config = getConfiguration();
+  const cached = passwordService.get(filePath, header.keyId ? [header.keyId] : []);
+  const passwordResult = await PasswordPrompt.showForDecryption({
+    hint: header.hint,
+    defaultPassword: cached.password
+  });
+  if (!passwordResult) {
+    return;
+  }
+
+  const keyfile = header.keyfile ? await keyfileService.resolve(filePath) : undefined;
+  if (keyfile === null) {
+    return;
+  }
+
+  const { size } = await vscode.workspace.fs.stat(fileUri);
+  const decryptOption = await vscode.window.showQuickPick(
+    [
+      {
+        label: '$(eye) Preview in Memory',
+        description: size > MAX_PREVIEW_SIZE ? 'File too large to preview' : 'Never written to disk (safe from Git)',
+        value: 'memory'
+      },
+      {
+        label: '$(file) Decrypt to File',
+        description: 'Write the original file to disk (may be committed to Git)',
+        value: 'file'
+      }
+    ].filter(option => option.value === 'file' || size <= MAX_PREVIEW_SIZE),
+    {
+      placeHolder: 'How would you like to decrypt this file?',
+      title: 'Decrypt Options'
+    }
+  );
+  if (!decryptOption) {
+    return;
+  }
+
+  const decryptedPath = filePath.replace(/\.enc$/, '');
+  try {
+    if (decryptOption.value === 'memory') {
+      const content = await streamEncryptionService.decryptToBuffer(
+        filePath, passwordResult.password, keyfile?.keyfileHash, MAX_PREVIEW_SIZE
+      );
+      await vscode.commands.executeCommand('vscode.open', encryptedFS.createPreviewFile(filePath, content));
+    } else {
+      if (!await isDecryptToFileAllowed(filePath) || !await confirmOverwrite(decryptedPath)) {
+        return;
+      }
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Decrypting ${path.basename(filePath)}…` },
+        () => streamEncryptionService.decryptFile(filePath, decryptedPath, passwordResult.password, keyfile?.keyfileHash)
+      );
+    }
+  } catch (error) {
+    if (error instanceof StreamAuthenticationError) {
+      vscode.window.showErrorMessage(keyfile ? 'Decryption failed. Wrong password or keyfile?' : error.message);
+    } else {
+      vscode.window.showErrorMessage(`Decryption failed: ${error instanceof Error ? error.message : error}`);
+    }
+    return;
+  }
+
+  if (config.rememberPassword) {
+    passwordService.put({ ...passwordResult, keyfile: keyfile?.keyfile }, filePath);
+  }
+
+  if (decryptOption.value === 'file') {
+    const choice = await vscode.window.showWarningMessage(
+      `⚠️ Decrypted file "${path.basename(decryptedPath)}" created. Be careful not to commit it to Git!`,
+      'Delete Encrypted', 'Keep Both', 'Add to .gitignore'
+    );
+    if (choice === 'Delete Encrypted') {
+      await vscode.workspace.fs.delete(fileUri);
+      vscode.window.showInformationMessage('Encrypted file deleted');
+    } else if (choice === 'Add to .gitignore') {
+      await addToGitignore(decryptedPath);
+    }
+  }
+}
+
+/**
+ * Ask before replacing an existing file
+ */
+async function confirmOverwrite(filePath: string): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+  } catch {
+    return true;
+  }
+  const overwrite = await vscode.window.showWarningMessage(
+    `"${path.basename(filePath)}" already exists. Replace it?`,
+    { modal: true },
+    'Replace'
+  );
+  return overwrite === 'Replace';
+}
+
 /**
  * Change password for encrypted file
  */
@@ -389,6 +930,10 @@ export async function changePassword(): Promise<void> {
     return;
   }
 
+  if (!await isEncryptionAllowed(filePath)) {
+    return;
+  }
+
   // Get password change
   const passwordResult = await PasswordPrompt.showForChangePassword({
     currentHint: fileData.hint
@@ -398,19 +943,30 @@ export async function changePassword(): Promise<void> {
     return;
   }
 
-  // Verify current password
-  const decryptedContent = encryptionService.decryptFileData(fileData, passwordResult.current.password);
-  if (decryptedContent === null) {
-    vscode.window.showErrorMessage('Current password is incorrect');
+  // The keyfile stays the same, only the password changes
+  const keyfile = fileData.keyfile ? await keyfileService.resolve(filePath) : undefined;
+  if (keyfile === null) {
     return;
   }
 
-  // Re-encrypt with new password
-  const newFileData = encryptionService.encryptFileContent(
-    decryptedContent,
-    passwordResult.new.password,
-    passwordResult.new.hint
-  );
+  // Verify current password and re-encrypt with new password
+  let newFileData: EncryptedFileData | null;
+  try {
+    newFileData = await encryptionService.changeFileDataPassword(
+      fileData,
+      passwordResult.current.password,
+      passwordResult.new.password,
+      passwordResult.new.hint,
+      keyfile?.keyfileHash
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  if (newFileData === null) {
+    vscode.window.showErrorMessage(keyfile ? 'Current password or keyfile is incorrect' : 'Current password is incorrect');
+    return;
+  }
 
   // Save updated file
   const newContent = JSON.stringify(newFileData, null, 2);
@@ -420,16 +976,160 @@ export async function changePassword(): Promise<void> {
   // Update cache
   const config = getConfiguration();
   if (config.rememberPassword) {
-    passwordService.put(passwordResult.new, filePath);
+    passwordService.put({ ...passwordResult.new, keyfile: keyfile?.keyfile }, filePath);
   }
 
   vscode.window.showInformationMessage('Password changed successfully');
 }
 
+/**
+ * Re-encrypt .md.enc files written with an older format or weaker
+ * parameters using the current defaults
+ * @param uri Optional URI of a single file to upgrade (for context menu)
+ */
+export async function upgradeEncryptedFiles(uri?: vscode.Uri): Promise<void> {
+  const candidates = uri
+    ? [uri]
+    : await vscode.workspace.findFiles('**/*.md.enc', '**/node_modules/**');
+
+  // Collect files that are not on the current format, except where the
+  // workspace policy does not allow the current settings
+  const outdated: { uri: vscode.Uri; fileData: EncryptedFileData }[] = [];
+  const violations: string[] = [];
+  for (const candidate of candidates) {
+    let fileData: EncryptedFileData;
+    try {
+      const bytes = await vscode.workspace.fs.readFile(candidate);
+      fileData = JSON.parse(Buffer.from(bytes).toString('utf8'));
+    } catch {
+      // Unreadable or invalid file, skip
+      continue;
+    }
+    // Of several password slots, only those of remembered passwords can be upgraded from here
+    if (!encryptionService.needsUpgrade(fileData, slot => !!slot.keyId && passwordService.hasKeyId(slot.keyId))) {
+      continue;
+    }
+    const violation = await policyService.getEncryptionViolation(candidate.fsPath, encryptionService.defaultParams.kdf);
+    if (violation) {
+      violations.push(violation);
+    } else {
+      outdated.push({ uri: candidate, fileData });
+    }
+  }
+
+  if (violations.length > 0) {
+    vscode.window.showErrorMessage(`${violations.length} encrypted file(s) cannot be upgraded: ${violations[0]}`);
+  }
+  if (outdated.length === 0) {
+    if (violations.length === 0) {
+      vscode.window.showInformationMessage('All encrypted files already use the current format');
+    }
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `${outdated.length} encrypted file(s) use an older format. Re-encrypt them with the current settings?`,
+    'Upgrade', 'Cancel'
+  );
+  if (confirm !== 'Upgrade') {
+    return;
+  }
+
+  const config = getConfiguration();
+  const encoder = new TextEncoder();
+  let upgraded = 0;
+  let skipped = 0;
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Upgrading encrypted files', cancellable: true },
+    async (progress, token) => {
+      // Cancelling stops the running key derivation, not just the loop
+      const abort = new AbortController();
+      token.onCancellationRequested(() => abort.abort());
+
+      for (const [index, { uri: fileUri, fileData }] of outdated.entries()) {
+        if (token.isCancellationRequested) {
+          skipped += outdated.length - index;
+          break;
+        }
+        const filePath = fileUri.fsPath;
+        progress.report({
+          message: `${path.basename(filePath)} (${index + 1}/${outdated.length})`,
+          increment: index === 0 ? 0 : 100 / outdated.length
+        });
+        const cached = passwordService.get(filePath, encryptionService.getFileKeyIds(fileData));
+
+        const keyfile = fileData.keyfile ? await keyfileService.resolve(filePath) : undefined;
+        if (keyfile === null) {
+          skipped++;
+          continue;
+        }
+
+        let password = cached.password;
+        let newFileData: EncryptedFileData | null = null;
+        try {
+          // Try the cached password first, then ask
+          newFileData = password
+            ? await encryptionService.upgradeFileData(fileData, password, keyfile?.keyfileHash, abort.signal)
+            : null;
+
+          while (newFileData === null) {
+            const passwordResult = await PasswordPrompt.showForDecryption({
+              title: `Upgrade ${path.basename(filePath)}`,
+              hint: fileData.hint,
+              defaultPassword: password
+            });
+            if (!passwordResult) {
+              break;
+            }
+            password = passwordResult.password;
+            newFileData = await encryptionService.upgradeFileData(fileData, password, keyfile?.keyfileHash, abort.signal);
+            if (newFileData === null) {
+              vscode.window.showErrorMessage(`Decryption of ${path.basename(filePath)} failed. Wrong password?`);
+            }
+          }
+        } catch (error) {
+          if (error instanceof KdfCancelledError) {
+            skipped += outdated.length - index;
+            break;
+          }
+          // Modified headers, unknown ciphers or KDFs: report and go on with the other files
+          vscode.window.showErrorMessage(
+            `${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`
+          );
+          newFileData = null;
+        }
+
+        if (newFileData === null) {
+          skipped++;
+          continue;
+        }
+
+        try {
+          await vscode.workspace.fs.writeFile(fileUri, encoder.encode(JSON.stringify(newFileData, null, 2)));
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to write ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+          skipped++;
+          continue;
+        }
+        upgraded++;
+
+        if (config.rememberPassword) {
+          passwordService.put({ password, hint: fileData.hint ?? '', keyfile: keyfile?.keyfile }, filePath);
+        }
+      }
+    }
+  );
+
+  const skippedMessage = skipped > 0 ? `, skipped ${skipped}` : '';
+  vscode.window.showInformationMessage(`Upgraded ${upgraded} encrypted file(s)${skippedMessage}`);
+}
+
 /**
  * Lock and close all encrypted files
+ * Returns the number of closed tabs
  */
-export async function lockAndCloseAll(): Promise<void> {
+export async function lockAndCloseAll(options: { notify?: boolean } = {}): Promise<number> {
   const config = getConfiguration();
 
   // Close all .md.enc files
@@ -447,10 +1147,13 @@ export async function lockAndCloseAll(): Promise<void> {
   // Clear password cache if desired
   if (config.rememberPassword) {
     const cleared = passwordService.clear();
-    vscode.window.showInformationMessage(`Closed ${tabs.length} encrypted file(s) and cleared ${cleared} cached password(s)`);
-  } else {
+    if (options.notify ?? true) {
+      vscode.window.showInformationMessage(`Closed ${tabs.length} encrypted file(s) and cleared ${cleared} cached password(s)`);
+    }
+  } else if (options.notify ?? true) {
     vscode.window.showInformationMessage(`Closed ${tabs.length} encrypted file(s)`);
   }
+  return tabs.length;
 }
 
 /**
@@ -461,6 +1164,76 @@ export async function clearPasswordCache(): Promise<void> {
   vscode.window.showInformationMessage(`Cleared ${cleared} cached password(s)`);
 }
 
+/**
+ * Password for a new encrypted file or in-place block: a unique random one
+ * from the unlocked keyring, otherwise asked for (the cached password is suggested)
+ */
+export async function getNewFilePassword(
+  filePath: string,
+  config: EncryptConfiguration,
+  allowKeyfile = true
+): Promise<PasswordPromptResult & { fromKeyring?: boolean }> {
+  if (keyringService.isUnlocked) {
+    try {
+      const password = await keyringService.createPassword(vscode.workspace.asRelativePath(filePath));
+      return { confirmed: true, password, hint: '', fromKeyring: true };
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `Cannot add a password to the keyring: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  const cached = passwordService.get(filePath);
+  return PasswordPrompt.showForEncryption({
+    confirmPassword: config.confirmPassword,
+    defaultPassword: cached.password,
+    defaultHint: cached.hint,
+    allowKeyfile,
+    defaultKeyfile: allowKeyfile ? cached.keyfile : undefined
+  });
+}
+
+/**
+ * Check the workspace policy before writing plaintext to disk
+ * Shows why it is not allowed
+ */
+async function isDecryptToFileAllowed(filePath: string): Promise<boolean> {
+  const violation = await policyService.getDecryptToFileViolation(filePath);
+  if (violation) {
+    vscode.window.showErrorMessage(violation);
+  }
+  return !violation;
+}
+
+/**
+ * Check the configured KDF against the workspace policy before encrypting
+ * Shows why it is not allowed
+ */
+export async function isEncryptionAllowed(filePath: string): Promise<boolean> {
+  const violation = await policyService.getEncryptionViolation(filePath, encryptionService.defaultParams.kdf);
+  if (violation) {
+    vscode.window.showErrorMessage(violation);
+  }
+  return !violation;
+}
+
+/**
+ * Hash the keyfile chosen in the password prompt
+ * Returns undefined when no keyfile was chosen, or null if it cannot be read
+ */
+async function hashChosenKeyfile(keyfile?: string): Promise<Buffer | undefined | null> {
+  if (!keyfile) {
+    return undefined;
+  }
+  try {
+    return await keyfileService.hash(keyfile);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read keyfile: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
 /**
  * Add a file to .gitignore
  */
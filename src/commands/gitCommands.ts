@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkStagedFiles, runGit, HOOK_MARKER, HOOK_SCRIPT_NAME } from '../git/commitGuard';
+import { DIFF_DRIVER, PASSWORD_VARIABLE } from '../git/textconv';
+
+/**
+ * Lines the installer adds to the pre-commit hook
+ */
+const HOOK_LINES = [
+  `${HOOK_MARKER}: reject plaintext that should be encrypted`,
+  `node "$(dirname "$0")/${HOOK_SCRIPT_NAME}" || exit 1`
+].join('\n');
+
+/**
+ * Root of the git repository containing a folder
+ * Returns undefined (and tells the user) if it is not in a repository
+ */
+async function getRepositoryRoot(folder: vscode.Uri): Promise<string | undefined> {
+  try {
+    return (await runGit(folder.fsPath, ['rev-parse', '--show-toplevel'])).toString('utf8').trim();
+  } catch {
+    vscode.window.showErrorMessage(`${folder.fsPath} is not in a git repository`);
+    return undefined;
+  }
+}
+
+/**
+ * Folder to act on: the one given, the only workspace folder, or a picked one
+ */
+async function pickFolder(uri?: vscode.Uri): Promise<vscode.Uri | undefined> {
+  if (uri) {
+    return uri;
+  }
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (folders.length === 0) {
+    vscode.window.showWarningMessage('Open a folder with a git repository');
+    return undefined;
+  }
+  if (folders.length === 1) {
+    return folders[0].uri;
+  }
+  return (await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the repository folder' }))?.uri;
+}
+
+/**
+ * Hooks directory of a repository (core.hooksPath or .git/hooks)
+ */
+async function getHooksDirectory(repoRoot: string): Promise<string> {
+  let hooksPath: string;
+  try {
+    hooksPath = (await runGit(repoRoot, ['config', '--get', 'core.hooksPath'])).toString('utf8').trim();
+  } catch {
+    // Not set
+    hooksPath = (await runGit(repoRoot, ['rev-parse', '--git-path', 'hooks'])).toString('utf8').trim();
+  }
+  return path.resolve(repoRoot, hooksPath);
+}
+
+/**
+ * Install a pre-commit hook running the commit guard, or update the guard
+ * script of an installed hook. An existing hook is extended after asking.
+ */
+export async function installCommitGuard(extensionPath: string, uri?: vscode.Uri): Promise<void> {
+  const folder = await pickFolder(uri);
+  const repoRoot = folder && await getRepositoryRoot(folder);
+  if (!repoRoot) {
+    return;
+  }
+
+  try {
+    const hooksDirectory = await getHooksDirectory(repoRoot);
+    const hookPath = path.join(hooksDirectory, 'pre-commit');
+    let hook: string | undefined;
+    try {
+      hook = await fs.promises.readFile(hookPath, 'utf8');
+    } catch {
+      // No hook yet
+    }
+
+    if (hook !== undefined && !hook.includes(HOOK_MARKER)) {
+      const answer = await vscode.window.showWarningMessage(
+        `${path.relative(repoRoot, hookPath)} already exists. Add the commit guard to it?`,
+        'Add', 'Cancel'
+      );
+      if (answer !== 'Add') {
+        return;
+      }
+    }
+
+    await fs.promises.mkdir(hooksDirectory, { recursive: true });
+    await fs.promises.copyFile(
+      path.join(extensionPath, 'out', 'git', 'commitGuard.js'),
+      path.join(hooksDirectory, HOOK_SCRIPT_NAME)
+    );
+    if (hook === undefined) {
+      await fs.promises.writeFile(hookPath, `#!/bin/sh\n${HOOK_LINES}\n`, { mode: 0o755 });
+    } else if (!hook.includes(HOOK_MARKER)) {
+      await fs.promises.writeFile(hookPath, `${hook.replace(/\n*$/, '\n\n')}${HOOK_LINES}\n`);
+      await fs.promises.chmod(hookPath, 0o755);
+    }
+
+    vscode.window.showInformationMessage(
+      hook?.includes(HOOK_MARKER)
+        ? 'Commit guard updated'
+        : `Commit guard installed in ${path.relative(repoRoot, hookPath)}. Commits need Node.js on the PATH.`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot install the commit guard: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Check the staged files like the pre-commit hook does, then commit if
+ * nothing is rejected (Source Control view action)
+ */
+export async function commitWithGuard(sourceControl?: vscode.SourceControl): Promise<void> {
+  const folder = await pickFolder(sourceControl?.rootUri);
+  const repoRoot = folder && await getRepositoryRoot(folder);
+  if (!repoRoot) {
+    return;
+  }
+
+  let violations;
+  try {
+    violations = await checkStagedFiles(repoRoot);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot check the staged files: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  if (violations.length > 0) {
+    vscode.window.showErrorMessage(
+      `Commit blocked: ${violations.length} staged file problem(s)`,
+      {
+        modal: true,
+        detail: violations.map(v => `${v.path}: ${v.message}`).join('\n')
+      }
+    );
+    return;
+  }
+
+  await vscode.commands.executeCommand('git.commit', sourceControl);
+}
+
+/**
+ * Show decrypted .md.enc content in git diffs of the repository: marks the
+ * files in .gitattributes and points the local git config at the textconv
+ * script of this extension (re-run after updating the extension)
+ */
+export async function configureEncryptedDiffs(extensionPath: string, uri?: vscode.Uri): Promise<void> {
+  const folder = await pickFolder(uri);
+  const repoRoot = folder && await getRepositoryRoot(folder);
+  if (!repoRoot) {
+    return;
+  }
+
+  try {
+    const script = path.join(extensionPath, 'out', 'git', 'textconv.js');
+    await runGit(repoRoot, ['config', '--local', `diff.${DIFF_DRIVER}.textconv`, `node ${JSON.stringify(script)}`]);
+    // Cached conversions would be stored in the repository as plaintext
+    await runGit(repoRoot, ['config', '--local', `diff.${DIFF_DRIVER}.cachetextconv`, 'false']);
+
+    const attributesPath = path.join(repoRoot, '.gitattributes');
+    let attributes = '';
+    try {
+      attributes = await fs.promises.readFile(attributesPath, 'utf8');
+    } catch {
+      // No .gitattributes yet
+    }
+    if (!new RegExp(`^\\*\\.md\\.enc\\s.*\\bdiff=${DIFF_DRIVER}\\b`, 'm').test(attributes)) {
+      const separator = attributes && !attributes.endsWith('\n') ? '\n' : '';
+      await fs.promises.writeFile(attributesPath, `${attributes}${separator}*.md.enc diff=${DIFF_DRIVER}\n`);
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot configure encrypted diffs: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  vscode.window.showInformationMessage(
+    `git diff now shows decrypted .md.enc files in this repository when ${PASSWORD_VARIABLE} holds the password.`
+  );
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { historyService } from '../services/HistoryService';
+import { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+import { getActiveEncryptedFile } from './keySlotCommands';
+import type { FileRevision } from '../types';
+
+/**
+ * Describe a revision for the quick pick
+ */
+function toQuickPickItem(revision: FileRevision): vscode.QuickPickItem & { revision: FileRevision } {
+  const lines = revision.content.split('\n');
+  const firstLine = lines.find(line => line.trim())?.trim() ?? '(empty)';
+  return {
+    label: `$(history) ${new Date(revision.saved).toLocaleString()}`,
+    description: `${lines.length} line${lines.length === 1 ? '' : 's'}`,
+    detail: firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine,
+    revision
+  };
+}
+
+/**
+ * Show the earlier revisions kept inside an encrypted file and open one as a
+ * read-only encfs:// document or diff it against the current content.
+ * The file must be unlocked: its history is encrypted with the same secrets.
+ */
+export async function showHistory(encryptedFS: EncryptedFileSystem, uri?: vscode.Uri): Promise<void> {
+  const realPath = uri?.fsPath ?? (await getActiveEncryptedFile(encryptedFS))?.realPath;
+  if (!realPath) {
+    return;
+  }
+  const name = path.basename(realPath);
+  const currentUri = encryptedFS.getVirtualUri(realPath);
+  if (!encryptedFS.getMeta(currentUri)) {
+    vscode.window.showInformationMessage(`Open and unlock ${name} to see its history.`);
+    return;
+  }
+
+  let revisions: FileRevision[] | null;
+  try {
+    revisions = await encryptedFS.getRevisions(realPath);
+  } catch (error) {
+    // Includes HeaderModifiedError for a tampered history
+    vscode.window.showErrorMessage(`Cannot read the history of ${name}: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+  if (revisions === null) {
+    vscode.window.showWarningMessage(`The history of ${name} was encrypted with a password this file was not unlocked with.`);
+    return;
+  }
+  if (revisions.length === 0) {
+    if (historyService.enabled) {
+      vscode.window.showInformationMessage(`${name} has no earlier revisions yet.`);
+      return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      `${name} has no earlier revisions. Turn on encrypt.history.enabled to keep them.`,
+      'Open Settings'
+    );
+    if (choice === 'Open Settings') {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'encrypt.history');
+    }
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(revisions.map(toQuickPickItem), {
+    title: `History of ${name}`,
+    placeHolder: 'Select a revision',
+    matchOnDetail: true
+  });
+  if (!picked) {
+    return;
+  }
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: '$(diff) Compare with Current', diff: true },
+      { label: '$(go-to-file) Open Revision', diff: false }
+    ],
+    { title: picked.label.replace('$(history) ', '') }
+  );
+  if (!action) {
+    return;
+  }
+
+  const saved = new Date(picked.revision.saved).toLocaleString();
+  const revisionUri = encryptedFS.createPreviewFile(
+    realPath.replace(/(\.md\.enc)$/, ` (${saved.replace(/[\\/:*?"<>|]/g, '-')})$1`),
+    new TextEncoder().encode(picked.revision.content),
+    true
+  );
+  await vscode.languages.setTextDocumentLanguage(await vscode.workspace.openTextDocument(revisionUri), 'markdown');
+  if (action.diff) {
+    await vscode.commands.executeCommand('vscode.diff', revisionUri, currentUri, `${name}: ${saved} ↔ Current`);
+  } else {
+    await vscode.window.showTextDocument(revisionUri, { preview: true });
+  }
+}
@@ -0,0 +1,303 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { encryptionService, HeaderModifiedError } from '../core/EncryptionService';
+import { keyfileService } from '../services/KeyfileService';
+import { recipientService } from '../services/RecipientService';
+import { PasswordPrompt } from '../ui/PasswordPrompt';
+import { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+import { isEncryptedFile } from './fileCommands';
+import type { EncryptedFileData, KeySlot } from '../types';
+
+/**
+ * Encrypted file targeted by a key slot command
+ */
+export interface TargetFile {
+  realPath: string;
+  fileData: EncryptedFileData;
+}
+
+/**
+ * Resolve the .md.enc file behind the active editor: an encfs:// document,
+ * a .md.enc text editor, or the unlock screen (custom editor)
+ */
+export async function getActiveEncryptedFile(encryptedFS: EncryptedFileSystem): Promise<TargetFile | null> {
+  let realPath: string | undefined;
+
+  const editor = vscode.window.activeTextEditor;
+  if (editor?.document.uri.scheme === EncryptedFileSystem.scheme) {
+    realPath = encryptedFS.getMeta(editor.document.uri)?.realPath;
+  } else if (editor && isEncryptedFile(editor.document.uri.fsPath)) {
+    realPath = editor.document.uri.fsPath;
+  } else {
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    if (input instanceof vscode.TabInputCustom && isEncryptedFile(input.uri.fsPath)) {
+      realPath = input.uri.fsPath;
+    }
+  }
+
+  if (!realPath) {
+    vscode.window.showWarningMessage('No open encrypted file');
+    return null;
+  }
+
+  try {
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(realPath));
+    return { realPath, fileData: JSON.parse(new TextDecoder().decode(bytes)) };
+  } catch {
+    vscode.window.showErrorMessage('Failed to read the encrypted file.');
+    return null;
+  }
+}
+
+/**
+ * Unwrap the data key of a file, converting a password-encrypted file to key slots.
+ * Uses the credentials of the open virtual file first, then the local private key,
+ * then asks for a password.
+ */
+export async function unlockDataKey(
+  encryptedFS: EncryptedFileSystem,
+  target: TargetFile
+): Promise<{ fileData: EncryptedFileData; dataKey: Buffer } | null> {
+  try {
+    return await unlockOrConvert(encryptedFS, target);
+  } catch (error) {
+    if (error instanceof HeaderModifiedError) {
+      vscode.window.showErrorMessage(error.message);
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function unlockOrConvert(
+  encryptedFS: EncryptedFileSystem,
+  target: TargetFile
+): Promise<{ fileData: EncryptedFileData; dataKey: Buffer } | null> {
+  const meta = encryptedFS.getMeta(encryptedFS.getVirtualUri(target.realPath));
+  if (meta?.dataKey && target.fileData.slots) {
+    return { fileData: target.fileData, dataKey: meta.dataKey };
+  }
+
+  if (meta) {
+    const unlocked = await encryptionService.convertToKeySlots(target.fileData, meta.password, meta.keyfile?.keyfileHash);
+    if (unlocked) {
+      return unlocked;
+    }
+  }
+
+  if (encryptionService.hasRecipients(target.fileData)) {
+    const privateKey = await recipientService.readIdentity().catch(() => undefined);
+    const unlocked = privateKey && encryptionService.unlockDataKeyWithIdentity(target.fileData, privateKey);
+    if (unlocked) {
+      return { fileData: target.fileData, dataKey: unlocked.dataKey };
+    }
+    if (!target.fileData.slots!.some(slot => slot.type === 'password')) {
+      vscode.window.showErrorMessage('Your private key is not a recipient of this file.');
+      return null;
+    }
+  }
+
+  const keyfile = target.fileData.keyfile ? await keyfileService.resolve(target.realPath) : undefined;
+  if (keyfile === null) {
+    return null;
+  }
+
+  while (true) {
+    const passwordResult = await PasswordPrompt.showForDecryption({
+      title: `Unlock ${path.basename(target.realPath)}`,
+      hint: target.fileData.hint
+    });
+    if (!passwordResult) {
+      return null;
+    }
+    const unlocked = await encryptionService.convertToKeySlots(
+      target.fileData,
+      passwordResult.password,
+      keyfile?.keyfileHash
+    );
+    if (unlocked) {
+      return unlocked;
+    }
+    vscode.window.showErrorMessage('Decryption failed. Wrong password?');
+  }
+}
+
+/**
+ * Write updated file data and remember the data key for the open virtual file
+ */
+export async function saveFileData(
+  encryptedFS: EncryptedFileSystem,
+  realPath: string,
+  fileData: EncryptedFileData,
+  dataKey?: Buffer
+): Promise<void> {
+  const encoder = new TextEncoder();
+  await vscode.workspace.fs.writeFile(vscode.Uri.file(realPath), encoder.encode(JSON.stringify(fileData, null, 2)));
+  if (dataKey) {
+    encryptedFS.updateMeta(realPath, { dataKey });
+  }
+}
+
+/**
+ * Describe a key slot for quick picks
+ */
+function toQuickPickItem(slot: KeySlot, index: number): vscode.QuickPickItem & { slot: KeySlot } {
+  const created = `created ${new Date(slot.created).toLocaleString()}`;
+  if (slot.type === 'x25519') {
+    return {
+      label: `$(person) ${slot.label || `Recipient ${index + 1}`}`,
+      description: `X25519 ${slot.recipient.slice(0, 12)}…`,
+      detail: `${slot.id} · ${created}`,
+      slot
+    };
+  }
+  const details = [
+    created,
+    slot.kdf.name,
+    slot.keyfile ? 'requires keyfile' : undefined
+  ].filter(Boolean);
+  return {
+    label: `$(key) ${slot.label || `Slot ${index + 1}`}`,
+    description: slot.hint ? `Hint: ${slot.hint}` : undefined,
+    detail: `${slot.id} · ${details.join(' · ')}`,
+    slot
+  };
+}
+
+/**
+ * Add a key slot so another password unlocks the active encrypted file
+ */
+export async function addKeySlot(encryptedFS: EncryptedFileSystem): Promise<void> {
+  const target = await getActiveEncryptedFile(encryptedFS);
+  if (!target) {
+    return;
+  }
+
+  if (!target.fileData.slots) {
+    const convert = await vscode.window.showWarningMessage(
+      'This file is protected by a single password. Convert it to key slots? The current password becomes the first slot.',
+      { modal: true },
+      'Convert'
+    );
+    if (convert !== 'Convert') {
+      return;
+    }
+  }
+
+  const unlocked = await unlockDataKey(encryptedFS, target);
+  if (!unlocked) {
+    return;
+  }
+
+  const passwordResult = await PasswordPrompt.showForEncryption({
+    confirmPassword: true,
+    allowKeyfile: true
+  });
+  if (!passwordResult.confirmed) {
+    return;
+  }
+
+  let keyfileHash: Buffer | undefined;
+  if (passwordResult.keyfile) {
+    try {
+      keyfileHash = await keyfileService.hash(passwordResult.keyfile);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot read keyfile: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+  }
+
+  const label = await vscode.window.showInputBox({
+    title: 'Key Slot Label (Optional)',
+    prompt: 'Name this slot, e.g. a teammate or "Recovery"',
+    ignoreFocusOut: true
+  });
+  if (label === undefined) {
+    return;
+  }
+
+  try {
+    const fileData = await encryptionService.addKeySlot(unlocked.fileData, unlocked.dataKey, passwordResult.password, {
+      hint: passwordResult.hint,
+      label: label.trim(),
+      keyfileHash
+    });
+    await saveFileData(encryptedFS, target.realPath, fileData, unlocked.dataKey);
+    vscode.window.showInformationMessage(
+      `Key slot added. ${path.basename(target.realPath)} now has ${fileData.slots!.length} key slot(s).`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to add key slot: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * List the key slots of the active encrypted file
+ */
+export async function listKeySlots(encryptedFS: EncryptedFileSystem): Promise<void> {
+  const target = await getActiveEncryptedFile(encryptedFS);
+  if (!target) {
+    return;
+  }
+
+  const slots = target.fileData.slots;
+  if (!slots) {
+    vscode.window.showInformationMessage(
+      `${path.basename(target.realPath)} is protected by a single password. Use "Add Key Slot" to add another one.`
+    );
+    return;
+  }
+
+  await vscode.window.showQuickPick(slots.map(toQuickPickItem), {
+    title: `Key Slots — ${path.basename(target.realPath)}`,
+    placeHolder: `${slots.length} key slot(s)`
+  });
+}
+
+/**
+ * Revoke a key slot of the active encrypted file
+ * The data key is kept, so the file has to be unlocked to re-seal the remaining slots
+ */
+export async function revokeKeySlot(encryptedFS: EncryptedFileSystem): Promise<void> {
+  const target = await getActiveEncryptedFile(encryptedFS);
+  if (!target) {
+    return;
+  }
+
+  const slots = target.fileData.slots;
+  if (!slots || slots.length < 2) {
+    vscode.window.showWarningMessage('This file has no key slot that can be revoked.');
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick(slots.map(toQuickPickItem), {
+    title: `Revoke Key Slot — ${path.basename(target.realPath)}`,
+    placeHolder: 'Select the key slot to revoke'
+  });
+  if (!choice) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Revoke "${choice.label.replace(/^\$\([a-z]+\) /, '')}"? It will no longer unlock this file. ` +
+    'Copies of the file made before revoking can still be opened with it.',
+    { modal: true },
+    'Revoke'
+  );
+  if (confirm !== 'Revoke') {
+    return;
+  }
+
+  const unlocked = await unlockDataKey(encryptedFS, target);
+  if (!unlocked) {
+    return;
+  }
+
+  try {
+    const fileData = encryptionService.revokeKeySlot(unlocked.fileData, unlocked.dataKey, choice.slot.id);
+    await saveFileData(encryptedFS, target.realPath, fileData, unlocked.dataKey);
+    vscode.window.showInformationMessage('Key slot revoked.');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to revoke key slot: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import { HeaderModifiedError } from '../core/EncryptionService';
+import { KdfCancelledError } from '../core/KeyDerivationService';
+import { keyringService } from '../services/KeyringService';
+import { PasswordPrompt } from '../ui/PasswordPrompt';
+
+/**
+ * Unlock the keyring, creating it with a new master password if none exists
+ */
+export async function unlockKeyring(): Promise<void> {
+  if (keyringService.isUnlocked) {
+    vscode.window.showInformationMessage(`The keyring is already unlocked (${keyringService.size} password(s))`);
+    return;
+  }
+  if (!keyringService.path) {
+    vscode.window.showErrorMessage('No keyring path is configured');
+    return;
+  }
+
+  if (!await keyringService.exists()) {
+    const create = await vscode.window.showInformationMessage(
+      `No keyring found at ${keyringService.path}. Create one with a new master password?`,
+      'Create Keyring', 'Cancel'
+    );
+    if (create !== 'Create Keyring') {
+      return;
+    }
+    const result = await PasswordPrompt.showForEncryption({ confirmPassword: true, allowKeyfile: false });
+    if (!result.confirmed) {
+      return;
+    }
+    try {
+      await keyringService.create(result.password, result.hint);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot create the keyring: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    vscode.window.showInformationMessage('Keyring created and unlocked. New encrypted files get a unique random password.');
+    return;
+  }
+
+  let hint: string;
+  try {
+    hint = await keyringService.readHint();
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read the keyring: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  while (true) {
+    const result = await PasswordPrompt.showForDecryption({ hint, title: 'Unlock Keyring' });
+    if (!result) {
+      return;
+    }
+
+    let unlocked: boolean;
+    try {
+      unlocked = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Unlocking keyring', cancellable: true },
+        (_progress, token) => {
+          const controller = new AbortController();
+          token.onCancellationRequested(() => controller.abort());
+          return keyringService.unlock(result.password, controller.signal);
+        }
+      );
+    } catch (error) {
+      if (error instanceof HeaderModifiedError) {
+        vscode.window.showErrorMessage(`Keyring: ${error.message}`);
+      } else if (!(error instanceof KdfCancelledError)) {
+        vscode.window.showErrorMessage(`Cannot unlock the keyring: ${error instanceof Error ? error.message : error}`);
+      }
+      return;
+    }
+
+    if (unlocked) {
+      vscode.window.showInformationMessage(`Keyring unlocked (${keyringService.size} password(s))`);
+      return;
+    }
+
+    const retry = await vscode.window.showErrorMessage('Wrong master password', 'Try Again');
+    if (retry !== 'Try Again') {
+      return;
+    }
+  }
+}
+
+/**
+ * Lock the keyring, forgetting the master password
+ */
+export function lockKeyring(): void {
+  if (!keyringService.isUnlocked) {
+    vscode.window.showInformationMessage('The keyring is not unlocked');
+    return;
+  }
+  keyringService.lock();
+  vscode.window.showInformationMessage('Keyring locked');
+}
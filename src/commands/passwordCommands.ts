@@ -0,0 +1,91 @@
+import * as vscode from 'vscode';
+import { passwordService, KEY_ID_PREFIX, FOLDER_PREFIX } from '../services/PasswordService';
+
+/**
+ * Readable label for a password cache key (workspace URI, folder or file path)
+ */
+function describeKey(key: string): { label: string; description?: string } {
+  if (key === 'workspace') {
+    return { label: '$(window) Workspace' };
+  }
+  if (key.startsWith(KEY_ID_PREFIX)) {
+    return { label: `$(key) Key ID ${key.slice(KEY_ID_PREFIX.length)}`, description: 'used by any file with this key ID' };
+  }
+  if (key.startsWith('workspace:')) {
+    const uri = vscode.Uri.parse(key.slice('workspace:'.length));
+    return { label: `$(window) Workspace: ${uri.path.split('/').pop()}`, description: uri.fsPath };
+  }
+  if (key.startsWith(FOLDER_PREFIX)) {
+    const folder = key.slice(FOLDER_PREFIX.length);
+    const depth = passwordService.folderDepth;
+    return {
+      label: `$(folder) ${vscode.workspace.asRelativePath(folder)}`,
+      description: depth === 0
+        ? 'covers this folder and its subfolders'
+        : `covers this folder and ${depth} level(s) of subfolders`
+    };
+  }
+  return { label: `$(file) ${vscode.workspace.asRelativePath(key)}` };
+}
+
+function describeAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) {
+    return 'remembered just now';
+  }
+  if (minutes < 60) {
+    return `remembered ${minutes} min ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `remembered ${hours} h ago` : `remembered ${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * Forget all remembered passwords, including those in the OS keychain
+ */
+export async function forgetStoredPasswords(): Promise<void> {
+  const answer = await vscode.window.showWarningMessage(
+    'Forget all remembered passwords, including those stored in the OS keychain?',
+    { modal: true },
+    'Forget All'
+  );
+  if (answer !== 'Forget All') {
+    return;
+  }
+  const count = await passwordService.forgetAll();
+  vscode.window.showInformationMessage(`Forgot ${count} remembered password(s)`);
+}
+
+/**
+ * List the keys passwords are remembered under (never the passwords) and
+ * forget the selected one
+ */
+export async function listStoredPasswords(): Promise<void> {
+  const keys = passwordService.listKeys();
+  if (keys.length === 0) {
+    vscode.window.showInformationMessage('No passwords are remembered');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    keys
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(({ key, timestamp, hint }) => ({
+        ...describeKey(key),
+        detail: hint ? `${describeAge(timestamp)} · Hint: ${hint}` : describeAge(timestamp),
+        key
+      })),
+    {
+      title: passwordService.persistent
+        ? 'Remembered Passwords (OS keychain)'
+        : 'Remembered Passwords (this session)',
+      placeHolder: 'Select a key to forget its password'
+    }
+  );
+  if (!picked) {
+    return;
+  }
+
+  passwordService.forgetKey(picked.key);
+  vscode.window.showInformationMessage(`Forgot the password for ${picked.label.replace(/^\$\([^)]+\) /, '')}`);
+}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { recipientService } from '../services/RecipientService';
+import type { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+import { isEncryptedFile, isEncryptionAllowed } from './fileCommands';
+import { getActiveEncryptedFile, unlockDataKey, saveFileData } from './keySlotCommands';
+import type { Recipient } from '../types';
+
+/**
+ * Read the recipients for a file, reporting problems to the user
+ * Returns null if there are none or the recipients file is invalid
+ */
+async function loadRecipients(filePath: string): Promise<Recipient[] | null> {
+  let recipients: Recipient[];
+  try {
+    recipients = await recipientService.getRecipients(filePath);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid recipients file: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+
+  if (recipients.length === 0) {
+    const choice = await vscode.window.showWarningMessage(
+      'No recipients found. Generate a key pair and add your public key to the recipients file first.',
+      'Generate Key Pair'
+    );
+    if (choice === 'Generate Key Pair') {
+      await vscode.commands.executeCommand('encrypt.generateKeyPair');
+    }
+    return null;
+  }
+  return recipients;
+}
+
+/**
+ * Generate an X25519 key pair, save the private key and offer to add
+ * the public key to the workspace recipients file
+ */
+export async function generateKeyPair(): Promise<void> {
+  const existing = recipientService.getIdentityFile();
+  if (existing) {
+    const replace = await vscode.window.showWarningMessage(
+      `A private key is already configured (${existing}). Files shared only with it cannot be opened with a new key. Generate a new one anyway?`,
+      { modal: true },
+      'Generate'
+    );
+    if (replace !== 'Generate') {
+      return;
+    }
+  }
+
+  const target = await vscode.window.showSaveDialog({
+    title: 'Save Private Key',
+    defaultUri: vscode.Uri.file(path.join(os.homedir(), '.vscode-encrypt', 'identity.pem')),
+    filters: { PEM: ['pem'] }
+  });
+  if (!target) {
+    return;
+  }
+
+  if (vscode.workspace.getWorkspaceFolder(target)) {
+    const confirm = await vscode.window.showWarningMessage(
+      'The private key would be saved inside the workspace, where it could be committed or shared. Continue?',
+      { modal: true },
+      'Save Anyway'
+    );
+    if (confirm !== 'Save Anyway') {
+      return;
+    }
+  }
+
+  const identity = encryptionService.generateIdentity();
+  try {
+    await fs.promises.mkdir(path.dirname(target.fsPath), { recursive: true });
+    // Readable by the owner only
+    await fs.promises.writeFile(target.fsPath, identity.privateKey, { mode: 0o600 });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save private key: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+
+  await vscode.workspace.getConfiguration('encrypt').update(
+    'identityFile',
+    target.fsPath,
+    vscode.ConfigurationTarget.Global
+  );
+
+  const choice = await vscode.window.showInformationMessage(
+    `Key pair generated. Public key: ${identity.publicKey}`,
+    'Add Me to Recipients',
+    'Copy Public Key'
+  );
+  if (choice === 'Copy Public Key') {
+    await vscode.env.clipboard.writeText(identity.publicKey);
+  } else if (choice === 'Add Me to Recipients') {
+    const name = await vscode.window.showInputBox({
+      title: 'Recipient Name',
+      prompt: 'Name shown to your teammates',
+      value: os.userInfo().username,
+      ignoreFocusOut: true
+    });
+    if (name === undefined) {
+      return;
+    }
+    try {
+      const added = await recipientService.addRecipient({ name: name.trim(), publicKey: identity.publicKey });
+      vscode.window.showInformationMessage(added ? 'Added to the recipients file.' : 'Already in the recipients file.');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to update recipients: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Copy the public key of the configured private key
+ */
+export async function copyPublicKey(): Promise<void> {
+  try {
+    const privateKey = await recipientService.readIdentity();
+    if (!privateKey) {
+      vscode.window.showWarningMessage('No private key configured. Run "Generate Key Pair" first.');
+      return;
+    }
+    await vscode.env.clipboard.writeText(encryptionService.getIdentityPublicKey(privateKey));
+    vscode.window.showInformationMessage('Public key copied to clipboard.');
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read private key: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Encrypt the active file for the workspace recipients.
+ * A plain file becomes a new .md.enc; an encrypted file gets its
+ * recipient key slots replaced with the current recipients.
+ */
+export async function shareWithRecipients(encryptedFS: EncryptedFileSystem): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const filePath = editor?.document.uri.fsPath;
+  if (editor && editor.document.uri.scheme === 'file' && filePath && !isEncryptedFile(filePath)) {
+    await encryptPlainFileForRecipients(editor.document);
+    return;
+  }
+
+  const target = await getActiveEncryptedFile(encryptedFS);
+  if (!target) {
+    return;
+  }
+  const recipients = await loadRecipients(target.realPath);
+  if (!recipients) {
+    return;
+  }
+
+  const unlocked = await unlockDataKey(encryptedFS, target);
+  if (!unlocked) {
+    return;
+  }
+
+  // Re-encrypt the content: the slots are authenticated with it and the data key may be rotated
+  let content: string;
+  try {
+    content = encryptionService.decryptWithDataKey(unlocked.fileData, unlocked.dataKey);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to decrypt the file content: ${error instanceof Error ? error.message : error}`);
+    return;
+  }
+  const rewrapped = encryptionService.rewrapForRecipients(unlocked.fileData, unlocked.dataKey, recipients);
+  const fileData = encryptionService.encryptWithDataKey(content, rewrapped.dataKey, rewrapped.fileData);
+  await saveFileData(encryptedFS, target.realPath, fileData, rewrapped.dataKey);
+
+  vscode.window.showInformationMessage(
+    `${path.basename(target.realPath)} is now shared with ${recipients.length} recipient(s).`
+  );
+}
+
+async function encryptPlainFileForRecipients(document: vscode.TextDocument): Promise<void> {
+  const filePath = document.uri.fsPath;
+  const recipients = await loadRecipients(filePath);
+  if (!recipients || !await isEncryptionAllowed(filePath)) {
+    return;
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Encrypt "${path.basename(filePath)}" for ${recipients.length} recipient(s)? ` +
+    'It can only be opened with a recipient\'s private key.',
+    'Encrypt', 'Cancel'
+  );
+  if (confirm !== 'Encrypt') {
+    return;
+  }
+
+  const { fileData } = encryptionService.encryptForRecipients(document.getText(), recipients);
+  const encryptedPath = filePath + '.enc';
+  const encryptedUri = vscode.Uri.file(encryptedPath);
+  const encoder = new TextEncoder();
+  await vscode.workspace.fs.writeFile(encryptedUri, encoder.encode(JSON.stringify(fileData, null, 2)));
+
+  const newDocument = await vscode.workspace.openTextDocument(encryptedUri);
+  await vscode.window.showTextDocument(newDocument);
+
+  const deleteOriginal = await vscode.window.showWarningMessage(
+    `Delete original file "${path.basename(filePath)}"?`,
+    'Delete', 'Keep'
+  );
+  if (deleteOriginal === 'Delete') {
+    await vscode.workspace.fs.delete(document.uri);
+  }
+
+  vscode.window.showInformationMessage('File encrypted for recipients');
+}
@@ -1,9 +1,17 @@
 import * as vscode from 'vscode';
-import { encryptionService } from '../services/EncryptionService';
+import { encryptionService, HeaderModifiedError } from '../core/EncryptionService';
 import { passwordService } from '../services/PasswordService';
+import { keyringService } from '../services/KeyringService';
 import { PasswordPrompt } from '../ui/PasswordPrompt';
 import { DecryptPanel } from '../ui/DecryptPanel';
-import type { EncryptConfiguration } from '../types';
+import { getNewFilePassword } from './fileCommands';
+import type { EncryptConfiguration, MeldMarkerVersion } from '../types';
+
+/**
+ * In-place marker: hidden `%%🔐…🔐%%` (tried first so the `%%` is part of the
+ * match) or visible `🔐…🔐`
+ */
+const MARKER_PATTERN = /%%🔐[^🔐]*🔐%%|🔐[^🔐]*🔐/u;
 
 /**
  * Get plugin configuration
@@ -77,7 +85,7 @@ async function promptAndEncryptText(editor: vscode.TextEditor, position: vscode.
   }
 
   const showMarker = config.showMarkerWhenReading;
-  const encrypted = encryptionService.encryptInPlace(
+  const encrypted = await encryptionService.encryptInPlace(
     result.password,
     result.password, // Use password as text to encrypt when empty selection
     result.hint,
@@ -105,28 +113,22 @@ async function performEncryption(
   const config = getConfiguration();
   const filePath = editor.document.uri.fsPath;
 
-  // Get default password from cache
-  const cached = passwordService.get(filePath);
-
-  const result = await PasswordPrompt.showForEncryption({
-    confirmPassword: config.confirmPassword,
-    defaultPassword: cached.password,
-    defaultHint: cached.hint
-  });
+  // In-place blocks have no keyfile
+  const result = await getNewFilePassword(filePath, config, false);
 
   if (!result.confirmed) {
     return;
   }
 
   const showMarker = config.showMarkerWhenReading;
-  const encrypted = encryptionService.encryptInPlace(text, result.password, result.hint, showMarker);
+  const encrypted = await encryptionService.encryptInPlace(text, result.password, result.hint, showMarker);
 
   await editor.edit(editBuilder => {
     editBuilder.replace(selection, encrypted);
   });
 
-  // Cache password
-  if (config.rememberPassword) {
+  // Cache password (keyring passwords are looked up by key ID instead)
+  if (config.rememberPassword && !result.fromKeyring) {
     passwordService.put({ password: result.password, hint: result.hint }, filePath);
   }
 
@@ -165,13 +167,17 @@ export async function decryptSelection(): Promise<void> {
   }
 
   const filePath = editor.document.uri.fsPath;
-  const cached = passwordService.get(filePath);
+  const keyId = encryptionService.getInPlaceKeyId(selectedText);
+  const cached = passwordService.get(filePath, keyId ? [keyId] : []);
 
   // Try cached password first
   if (cached.password) {
-    const decrypted = encryptionService.decryptInPlace(selectedText, cached.password);
+    const decrypted = await decryptOrReport(selectedText, cached.password);
+    if (decrypted === undefined) {
+      return;
+    }
     if (decrypted) {
-      showDecryptedContent(editor, selection, selectedText, decrypted, cached.password, parsed.hint);
+      showDecryptedContent(editor, selection, selectedText, decrypted, cached.password, parsed.hint, parsed.meld);
       return;
     }
   }
@@ -186,7 +192,10 @@ export async function decryptSelection(): Promise<void> {
     return;
   }
 
-  const decrypted = encryptionService.decryptInPlace(selectedText, passwordResult.password);
+  const decrypted = await decryptOrReport(selectedText, passwordResult.password);
+  if (decrypted === undefined) {
+    return;
+  }
   if (decrypted === null) {
     vscode.window.showErrorMessage('Decryption failed. Wrong password?');
     return;
@@ -196,8 +205,11 @@ export async function decryptSelection(): Promise<void> {
   if (config.rememberPassword) {
     passwordService.put(passwordResult, filePath);
   }
+  if (!parsed.meld) {
+    await keyringService.add(passwordResult.password, vscode.workspace.asRelativePath(filePath));
+  }
 
-  showDecryptedContent(editor, selection, selectedText, decrypted, passwordResult.password, parsed.hint);
+  showDecryptedContent(editor, selection, selectedText, decrypted, passwordResult.password, parsed.hint, parsed.meld);
 }
 
 /**
@@ -208,8 +220,8 @@ function findEncryptedTextAtCursor(editor: vscode.TextEditor): { selection: vsco
   const cursor = editor.selection.active;
   const line = document.lineAt(cursor.line);
 
-  // Find all encrypted markers in the line
-  const markerPattern = /🔐[^🔐]*🔐|%%🔐[^🔐]*🔐%%/g;
+  // Find all encrypted markers in the line (including Meld Encrypt's `%%🔐β …🔐%%`)
+  const markerPattern = new RegExp(MARKER_PATTERN.source, 'gu');
   let match: RegExpExecArray | null;
 
   while ((match = markerPattern.exec(line.text)) !== null) {
@@ -274,20 +286,12 @@ function findEncryptedTextAtCursor(editor: vscode.TextEditor): { selection: vsco
  * Find the exact range of encrypted marker within text
  */
 function findEncryptedMarkerRange(text: string): { start: number; end: number } | null {
-  // Try to find encrypted marker in the text
-  const patterns = [
-    /🔐[^🔐]*🔐/,  // 🔐...🔐
-    /%%🔐[^🔐]*🔐%%/  // %%🔐...🔐%%
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      return {
-        start: match.index!,
-        end: match.index! + match[0].length
-      };
-    }
+  const match = MARKER_PATTERN.exec(text);
+  if (match) {
+    return {
+      start: match.index,
+      end: match.index + match[0].length
+    };
   }
 
   return null;
@@ -302,7 +306,8 @@ function showDecryptedContent(
   encryptedText: string,
   decryptedText: string,
   password: string,
-  hint?: string
+  hint?: string,
+  meld?: { version: MeldMarkerVersion; hidden: boolean }
 ): void {
   const config = getConfiguration();
   const extensionUri = vscode.Uri.parse('file://' + __dirname);
@@ -348,8 +353,11 @@ function showDecryptedContent(
     },
     onSave: async (newContent: string) => {
       // Use WorkspaceEdit which works with document URI directly
+      // Meld Encrypt markers stay in Meld's format so the Obsidian vault can still read them
       const showMarker = config.showMarkerWhenReading;
-      const reEncrypted = encryptionService.encryptInPlace(newContent, password, hint ?? '', showMarker);
+      const reEncrypted = meld
+        ? await encryptionService.encryptMeldInPlace(newContent, password, hint, meld.hidden)
+        : await encryptionService.encryptInPlace(newContent, password, hint ?? '', showMarker);
 
       const edit = new vscode.WorkspaceEdit();
       edit.replace(documentUri, replaceRange, reEncrypted);
@@ -364,3 +372,19 @@ function showDecryptedContent(
     }
   });
 }
+
+/**
+ * Decrypt in-place encrypted text, reporting a modified header to the user
+ * Returns null on a wrong password and undefined if the header was modified
+ */
+async function decryptOrReport(text: string, password: string): Promise<string | null | undefined> {
+  try {
+    return await encryptionService.decryptInPlace(text, password);
+  } catch (error) {
+    if (error instanceof HeaderModifiedError) {
+      vscode.window.showErrorMessage(error.message);
+      return undefined;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import * as zlib from 'zlib';
+import type { CompressionAlgorithm } from '../types';
+
+/**
+ * Compression settings for newly encrypted content
+ */
+export interface CompressionSettings {
+  algorithm: CompressionAlgorithm | 'none';
+  /** Plaintext smaller than this (in bytes) is stored uncompressed */
+  threshold: number;
+}
+
+/**
+ * Compression Service: optional deflate/brotli stage before encryption.
+ * Markdown and logs typically shrink by well over half, which more than
+ * offsets the base64 overhead of .md.enc files and in-place markers.
+ */
+export class CompressionService {
+  private settings: CompressionSettings = { algorithm: 'none', threshold: 1024 };
+
+  /**
+   * Set the compression used for newly encrypted content
+   * Throws if the algorithm is unknown
+   */
+  configure(settings: CompressionSettings): void {
+    if (!['none', 'deflate', 'brotli'].includes(settings.algorithm)) {
+      throw new Error(`Unsupported compression: ${settings.algorithm}`);
+    }
+    this.settings = { algorithm: settings.algorithm, threshold: Math.max(0, settings.threshold) };
+  }
+
+  /**
+   * Compress plaintext with the configured algorithm
+   * Returns the input unchanged (and no algorithm) if compression is off,
+   * the input is below the threshold, or compressing does not make it smaller
+   */
+  compress(plaintext: Buffer): { data: Buffer; algorithm?: CompressionAlgorithm } {
+    const { algorithm, threshold } = this.settings;
+    if (algorithm === 'none' || plaintext.length < threshold) {
+      return { data: plaintext };
+    }
+    const compressed = algorithm === 'brotli'
+      ? zlib.brotliCompressSync(plaintext, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: plaintext.length
+        }
+      })
+      : zlib.deflateRawSync(plaintext, { level: zlib.constants.Z_BEST_COMPRESSION });
+    return compressed.length < plaintext.length
+      ? { data: compressed, algorithm }
+      : { data: plaintext };
+  }
+
+  /**
+   * Reverse `compress`
+   * Throws if the algorithm is unknown or the data is not valid compressed data
+   */
+  decompress(data: Buffer, algorithm?: CompressionAlgorithm): Buffer {
+    switch (algorithm) {
+      case undefined:
+        return data;
+      case 'deflate':
+        return zlib.inflateRawSync(data);
+      case 'brotli':
+        return zlib.brotliDecompressSync(data);
+      default:
+        throw new Error(`Unsupported compression: ${algorithm}`);
+    }
+  }
+}
+
+// Singleton instance
+export const compressionService = new CompressionService();
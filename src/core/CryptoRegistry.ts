@@ -0,0 +1,260 @@
+import * as crypto from 'crypto';
+import type { KdfParams, OpenPgpS2kParams, Pbkdf2Params, ScryptParams } from '../types';
+
+/**
+ * Most PBKDF2 iterations accepted from a file header (about ten seconds with SHA-512)
+ */
+export const MAX_PBKDF2_ITERATIONS = 10000000;
+
+/**
+ * Most memory an scrypt derivation may use (128 * N * r), as much as age work factor 20
+ */
+export const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024;
+
+/**
+ * Highest scrypt parallelization accepted from a file header
+ */
+export const MAX_SCRYPT_PARALLELIZATION = 16;
+
+/**
+ * Highest OpenPGP S2K byte count, the largest one the format can encode
+ */
+export const MAX_S2K_COUNT = 65011712;
+
+/**
+ * Raised for KDF parameters that are malformed or above the supported maximum
+ */
+export class KdfParamsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KdfParamsError';
+  }
+}
+
+/**
+ * Key derivation function implementation
+ */
+export interface KdfImplementation<P extends KdfParams = KdfParams> {
+  readonly name: P['name'];
+  deriveKey(secret: string | Buffer, salt: Buffer, params: P, keyLength: number): Buffer;
+  /**
+   * Throws KdfParamsError if `params` are malformed or above the supported maximum; they come
+   * from untrusted file headers, so a crafted file could otherwise pin the CPU
+   * or exhaust memory
+   */
+  validate(params: P): void;
+  /** Check whether `params` are weaker than `reference` */
+  isWeaker(params: P, reference: P): boolean;
+}
+
+/**
+ * Authenticated cipher implementation
+ */
+export interface CipherImplementation {
+  readonly name: string;
+  readonly keyLength: number;
+  readonly ivLength: number;
+  readonly authTagLength: number;
+  /** `aad` is authenticated but not encrypted */
+  encrypt(key: Buffer, iv: Buffer, plaintext: Buffer, aad?: Buffer): { ciphertext: Buffer; authTag: Buffer };
+  /** Throws if authentication fails */
+  decrypt(key: Buffer, iv: Buffer, ciphertext: Buffer, authTag: Buffer, aad?: Buffer): Buffer;
+}
+
+/**
+ * PBKDF2 using Node's built-in implementation
+ */
+const pbkdf2: KdfImplementation<Pbkdf2Params> = {
+  name: 'pbkdf2',
+  deriveKey(secret, salt, params, keyLength) {
+    return crypto.pbkdf2Sync(secret, salt, params.iterations, keyLength, params.digest);
+  },
+  validate(params) {
+    if (!Number.isInteger(params.iterations) || params.iterations < 1) {
+      throw new KdfParamsError('Invalid PBKDF2 iteration count');
+    }
+    if (params.iterations > MAX_PBKDF2_ITERATIONS) {
+      throw new KdfParamsError(`PBKDF2 iteration count ${params.iterations} is above the supported maximum of ${MAX_PBKDF2_ITERATIONS}`);
+    }
+  },
+  isWeaker(params, reference) {
+    return params.digest !== reference.digest || params.iterations < reference.iterations;
+  }
+};
+
+/**
+ * scrypt (memory-hard) using Node's built-in implementation
+ */
+const scrypt: KdfImplementation<ScryptParams> = {
+  name: 'scrypt',
+  deriveKey(secret, salt, params, keyLength) {
+    return crypto.scryptSync(secret, salt, keyLength, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      // Node's default limit (32 MiB) is below what useful cost factors need
+      maxmem: 256 * params.n * params.r + 128 * params.r * params.p
+    });
+  },
+  validate(params) {
+    const { n, r, p } = params;
+    if (!Number.isInteger(n) || n < 2 || (n & (n - 1)) !== 0 || !Number.isInteger(r) || r < 1 ||
+      !Number.isInteger(p) || p < 1) {
+      throw new KdfParamsError('Invalid scrypt parameters');
+    }
+    if (128 * n * r > MAX_SCRYPT_MEMORY || p > MAX_SCRYPT_PARALLELIZATION) {
+      throw new KdfParamsError(`scrypt parameters N=${n}, r=${r}, p=${p} are above the supported maximum`);
+    }
+  },
+  isWeaker(params, reference) {
+    return params.n < reference.n || params.r < reference.r || params.p < reference.p;
+  }
+};
+
+/**
+ * OpenPGP iterated and salted S2K: hash salt || password repeated until `count`
+ * bytes, with one hash context per digest needed to fill the key (each context
+ * is preloaded with one more zero byte than the previous one)
+ */
+const openPgpS2k: KdfImplementation<OpenPgpS2kParams> = {
+  name: 'openpgp-s2k',
+  deriveKey(secret, salt, params, keyLength) {
+    const data = Buffer.concat([salt, typeof secret === 'string' ? Buffer.from(secret, 'utf8') : secret]);
+    const total = Math.max(params.count, data.length);
+    // Hash large repeated blocks instead of millions of tiny updates
+    const unit = Buffer.alloc(data.length * Math.ceil(65536 / Math.max(data.length, 1)));
+    for (let offset = 0; offset < unit.length; offset += data.length) {
+      data.copy(unit, offset);
+    }
+
+    const digests: Buffer[] = [];
+    let derived = 0;
+    for (let context = 0; derived < keyLength; context++) {
+      const hash = crypto.createHash(params.hash).update(Buffer.alloc(context));
+      let remaining = total;
+      while (remaining > 0 && unit.length > 0) {
+        const piece = Math.min(remaining, unit.length);
+        hash.update(unit.subarray(0, piece));
+        remaining -= piece;
+      }
+      const digest = hash.digest();
+      digests.push(digest);
+      derived += digest.length;
+    }
+    return Buffer.concat(digests).subarray(0, keyLength);
+  },
+  validate(params) {
+    if (!Number.isInteger(params.count) || params.count < 0) {
+      throw new KdfParamsError('Invalid OpenPGP S2K count');
+    }
+    if (params.count > MAX_S2K_COUNT) {
+      throw new KdfParamsError(`OpenPGP S2K count ${params.count} is above the supported maximum of ${MAX_S2K_COUNT}`);
+    }
+  },
+  isWeaker(params, reference) {
+    return params.hash !== reference.hash || params.count < reference.count;
+  }
+};
+
+/**
+ * Build an AEAD cipher backed by Node's crypto module
+ */
+function createAeadCipher(
+  name: 'aes-256-gcm' | 'chacha20-poly1305',
+  ivLength: number
+): CipherImplementation {
+  const authTagLength = 16;
+  return {
+    name,
+    keyLength: 32,
+    ivLength,
+    authTagLength,
+    encrypt(key, iv, plaintext, aad) {
+      const cipher = crypto.createCipheriv(name as crypto.CipherGCMTypes, key, iv, { authTagLength });
+      if (aad) {
+        cipher.setAAD(aad);
+      }
+      const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      return { ciphertext, authTag: cipher.getAuthTag() };
+    },
+    decrypt(key, iv, ciphertext, authTag, aad) {
+      const decipher = crypto.createDecipheriv(name as crypto.CipherGCMTypes, key, iv, { authTagLength });
+      decipher.setAuthTag(authTag);
+      if (aad) {
+        decipher.setAAD(aad);
+      }
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    }
+  };
+}
+
+/**
+ * Registry of available key derivation functions and ciphers
+ */
+export class CryptoRegistry {
+  private kdfs = new Map<string, KdfImplementation>();
+  private ciphers = new Map<string, CipherImplementation>();
+
+  /**
+   * Register a key derivation function (replaces one with the same name)
+   */
+  registerKdf<P extends KdfParams>(kdf: KdfImplementation<P>): void {
+    this.kdfs.set(kdf.name, kdf as unknown as KdfImplementation);
+  }
+
+  /**
+   * Register a cipher (replaces one with the same name)
+   */
+  registerCipher(cipher: CipherImplementation): void {
+    this.ciphers.set(cipher.name, cipher);
+  }
+
+  /**
+   * Get a key derivation function by name
+   * Throws if the KDF is unknown
+   */
+  getKdf(name: string): KdfImplementation {
+    const kdf = this.kdfs.get(name);
+    if (!kdf) {
+      throw new Error(`Unsupported key derivation function: ${name}`);
+    }
+    return kdf;
+  }
+
+  /**
+   * Check KDF parameters before deriving a key
+   * Throws if the KDF is unknown or the parameters are invalid or too expensive
+   */
+  validateKdf(params: KdfParams): void {
+    this.getKdf(params.name).validate(params);
+  }
+
+  /**
+   * Get a cipher by name
+   * Throws if the cipher is unknown
+   */
+  getCipher(name: string): CipherImplementation {
+    const cipher = this.ciphers.get(name);
+    if (!cipher) {
+      throw new Error(`Unsupported cipher: ${name}`);
+    }
+    return cipher;
+  }
+
+  get kdfNames(): string[] {
+    return [...this.kdfs.keys()];
+  }
+
+  get cipherNames(): string[] {
+    return [...this.ciphers.keys()];
+  }
+}
+
+// Singleton instance with the built-in implementations
+export const cryptoRegistry = new CryptoRegistry();
+cryptoRegistry.registerKdf(pbkdf2);
+cryptoRegistry.registerKdf(scrypt);
+cryptoRegistry.registerKdf(openPgpS2k);
+// 16-byte IV kept for compatibility with Obsidian Encrypt v2.0
+cryptoRegistry.registerCipher(createAeadCipher('aes-256-gcm', 16));
+cryptoRegistry.registerCipher(createAeadCipher('chacha20-poly1305', 12));
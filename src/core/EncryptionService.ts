@@ -0,0 +1,1441 @@
+import * as crypto from 'crypto';
+import { cryptoRegistry, KdfParamsError } from './CryptoRegistry';
+import { keyDerivationService, KdfCancelledError } from './KeyDerivationService';
+import { compressionService } from './CompressionService';
+import type {
+  CompressionAlgorithm,
+  EncryptionResult,
+  EncryptedFileData,
+  FileRevision,
+  KdfParams,
+  KeySlot,
+  MeldEncryptedFileData,
+  MeldMarkerVersion,
+  PasswordKeySlot,
+  Recipient,
+  RecipientKeySlot
+} from '../types';
+
+/**
+ * Cipher and key derivation parameters used for one encryption
+ */
+export interface CryptoParams {
+  cipher: string;
+  kdf: KdfParams;
+}
+
+/**
+ * Version written into new .md.enc files.
+ * Since 3.0 the header is authenticated as associated data of the content.
+ */
+export const CURRENT_FILE_VERSION = '3.0';
+
+/**
+ * Parameters implied by version 1.0 files, which did not record them
+ */
+export const LEGACY_PARAMS: CryptoParams = {
+  cipher: 'aes-256-gcm',
+  kdf: { name: 'pbkdf2', digest: 'sha512', iterations: 210000 }
+};
+
+/**
+ * Obsidian Meld Encrypt: `🔐β ` markers and version 2.0 .mdenc files derive
+ * the key with PBKDF2-SHA512 and a random salt; `🔐α ` markers and version 1.0
+ * files use PBKDF2-SHA256 with a fixed salt. Both use AES-256-GCM with a
+ * 16-byte IV. Obsolete `%%🔐 ` markers use SHA-256 of the password as the key
+ * and a fixed IV.
+ */
+const MELD_PARAMS: Record<'beta' | 'alpha', CryptoParams> = {
+  beta: { cipher: 'aes-256-gcm', kdf: { name: 'pbkdf2', digest: 'sha512', iterations: 210000 } },
+  alpha: { cipher: 'aes-256-gcm', kdf: { name: 'pbkdf2', digest: 'sha256', iterations: 1000 } }
+};
+const MELD_ALPHA_SALT = Buffer.from('XHWnDAT6ehMVY2zD', 'utf8');
+const MELD_OBSOLETE_IV = Buffer.from([196, 190, 240, 190, 188, 78, 41, 132, 15, 220, 84, 211]);
+const MELD_IV_LENGTH = 16;
+const MELD_SALT_LENGTH = 16;
+const MELD_AUTH_TAG_LENGTH = 16;
+const MELD_FILE_VERSION = '2.0';
+
+/**
+ * Meld Encrypt markers: `%%🔐β 💡hint💡data 🔐%%` (`α`, or nothing for the
+ * obsolete version) and the visible `🔐β 💡hint💡data 🔐`
+ */
+const MELD_HIDDEN_PATTERN = /%%🔐([αβ]?) (?:💡([^💡]*)💡)?([A-Za-z0-9+/=]+) 🔐%%/u;
+const MELD_VISIBLE_PATTERN = /🔐([αβ]) (?:💡([^💡]*)💡)?([A-Za-z0-9+/=]+) 🔐/u;
+
+/**
+ * Magic prefix of versioned in-place payloads.
+ * Legacy payloads start directly with the random salt.
+ */
+const MARKER_MAGIC = Buffer.from('VENC', 'ascii');
+const MARKER_VERSION = 3;
+const MARKER_VERSION_UNAUTHENTICATED = 2;
+
+/**
+ * HMAC message of the key verifier stored next to authenticated headers
+ */
+const KEY_CHECK_INFO = 'vscode-encrypt key check';
+
+/**
+ * Key IDs are random, 8 bytes as hex
+ */
+const KEY_ID_LENGTH = 8;
+
+/**
+ * HKDF info string for wrapping data keys to X25519 recipients
+ */
+const RECIPIENT_WRAP_INFO = 'vscode-encrypt x25519 key slot';
+
+/**
+ * Raised when the password is right but the header or ciphertext was changed
+ */
+export class HeaderModifiedError extends Error {
+  constructor(message = 'Header modified: the encrypted data was changed or corrupted and was not decrypted') {
+    super(message);
+    this.name = 'HeaderModifiedError';
+  }
+}
+
+/**
+ * Verifier of a derived key: the first 16 bytes of HMAC-SHA256(key, KEY_CHECK_INFO)
+ */
+export function computeKeyCheck(key: Buffer): Buffer {
+  return crypto.createHmac('sha256', key).update(KEY_CHECK_INFO).digest().subarray(0, 16);
+}
+
+/**
+ * Check whether a derived key matches a stored verifier
+ */
+export function matchesKeyCheck(key: Buffer, keyCheck: string): boolean {
+  const expected = Buffer.from(keyCheck, 'base64');
+  const actual = computeKeyCheck(key);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * JSON with sorted keys and without undefined values, so associated data
+ * does not depend on property order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Check whether a file version authenticates its header
+ */
+function isAuthenticatedVersion(version: string): boolean {
+  return parseFloat(version) >= 3;
+}
+
+/**
+ * Associated data of password-encrypted files: every header field except
+ * the IV (already an input of the cipher), the ciphertext itself and the key
+ * ID (added later; a changed ID only makes the wrong cached password be tried)
+ */
+function fileHeaderAad(fileData: EncryptedFileData): Buffer {
+  return Buffer.from(canonicalJson({
+    version: fileData.version,
+    cipher: fileData.cipher,
+    kdf: fileData.kdf,
+    keyfile: !!fileData.keyfile,
+    hint: fileData.hint ?? '',
+    salt: fileData.salt,
+    compression: fileData.compression,
+    keyCheck: fileData.keyCheck
+  }), 'utf8');
+}
+
+/**
+ * Associated data of key-slot files: the version, cipher, compression and all
+ * slots, so adding, removing or editing a slot (e.g. its hint) is detected
+ */
+function slotFileAad(fileData: Pick<EncryptedFileData, 'version' | 'compression'>, cipher: string, slots: KeySlot[]): Buffer {
+  return Buffer.from(canonicalJson({
+    version: fileData.version,
+    cipher,
+    compression: fileData.compression,
+    slots
+  }), 'utf8');
+}
+
+/**
+ * Associated data of in-place payloads: the bytes up to the JSON header,
+ * the salt and the hint shown in the marker
+ */
+function inPlaceAad(prefix: Buffer, salt: Buffer, hint?: string): Buffer {
+  return Buffer.concat([prefix, salt, Buffer.from(hint ?? '', 'utf8')]);
+}
+
+function isPasswordSlot(slot: KeySlot): slot is PasswordKeySlot {
+  return slot.type === 'password';
+}
+
+function isRecipientSlot(slot: KeySlot): slot is RecipientKeySlot {
+  return slot.type === 'x25519';
+}
+
+/**
+ * Hint shown on the unlock screen: the one of the first password slot
+ */
+function primaryHint(slots: KeySlot[]): string | undefined {
+  return slots.find(isPasswordSlot)?.hint;
+}
+
+/**
+ * A key-slot file needs a keyfile to be unlocked by password only if every password slot needs one
+ */
+function requiresKeyfile(slots: KeySlot[]): true | undefined {
+  const passwordSlots = slots.filter(isPasswordSlot);
+  return passwordSlots.length > 0 && passwordSlots.every(slot => slot.keyfile) ? true : undefined;
+}
+
+/**
+ * Encryption Service using the ciphers and KDFs from the crypto registry
+ * (AES-256-GCM with PBKDF2-SHA512 by default)
+ */
+export class EncryptionService {
+  private readonly SALT_LENGTH = 16; // 128 bits (compatible with Obsidian Encrypt v2.0)
+
+  /**
+   * Parameters used for newly encrypted content
+   * Defaults are compatible with Obsidian Encrypt v2.0
+   */
+  private params: CryptoParams = LEGACY_PARAMS;
+
+  /** Key IDs of passwords seen this session, by HMAC of the password under a random key */
+  private keyIds = new Map<string, string[]>();
+  private readonly keyIdCacheSecret = crypto.randomBytes(32);
+
+  /**
+   * Set the parameters used for newly encrypted content
+   * Throws if the cipher or KDF is unknown or the KDF parameters are above the limits
+   */
+  configure(params: CryptoParams): void {
+    cryptoRegistry.getCipher(params.cipher);
+    cryptoRegistry.validateKdf(params.kdf);
+    this.params = { cipher: params.cipher, kdf: { ...params.kdf } };
+  }
+
+  get defaultParams(): CryptoParams {
+    return this.params;
+  }
+
+  /**
+   * Derive a key from password using the given KDF parameters, in a worker thread.
+   * When a keyfile hash is given, it is mixed with the password first.
+   * Rejects with KdfCancelledError if `signal` is aborted.
+   */
+  async deriveKey(
+    password: string,
+    salt: Buffer,
+    params: CryptoParams,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
+    const cipher = cryptoRegistry.getCipher(params.cipher);
+    // Fail fast on unknown KDFs and header values above the limits instead of inside the worker
+    cryptoRegistry.validateKdf(params.kdf);
+    const secret = keyfileHash ? this.composeSecret(password, keyfileHash) : password;
+    return keyDerivationService.derive(secret, salt, params.kdf, cipher.keyLength, signal);
+  }
+
+  /**
+   * Combine password and keyfile into one composite secret (KeePass-style):
+   * SHA-256(SHA-256(password) || SHA-256(keyfile))
+   */
+  private composeSecret(password: string, keyfileHash: Buffer): Buffer {
+    const passwordHash = crypto.createHash('sha256').update(password, 'utf8').digest();
+    return crypto.createHash('sha256').update(passwordHash).update(keyfileHash).digest();
+  }
+
+  private keyIdCacheKey(password: string): string {
+    return crypto.createHmac('sha256', this.keyIdCacheSecret).update(password, 'utf8').digest('base64');
+  }
+
+  /**
+   * Non-secret identifier of a password, recorded in new files and markers so
+   * the matching cached password is tried first. The ID is random, not derived
+   * from the password, so it reveals nothing about it and cannot be looked up
+   * in a precomputed table; it only shows which files share a password.
+   * A password keeps the ID it was given or seen with before (in a file it
+   * opened, the keyring or the password cache), otherwise it gets a new one.
+   * A keyfile does not change the ID.
+   */
+  getKeyId(password: string): string {
+    const [known] = this.getKnownKeyIds(password);
+    if (known) {
+      return known;
+    }
+    const keyId = crypto.randomBytes(KEY_ID_LENGTH).toString('hex');
+    this.rememberKeyId(password, keyId);
+    return keyId;
+  }
+
+  /**
+   * Every key ID a password is known to have this session
+   */
+  getKnownKeyIds(password: string): string[] {
+    return [...this.keyIds.get(this.keyIdCacheKey(password)) ?? []];
+  }
+
+  /**
+   * Remember that a password has a key ID, e.g. one recorded in a file it opened
+   */
+  rememberKeyId(password: string, keyId: string): void {
+    const cacheKey = this.keyIdCacheKey(password);
+    const known = this.keyIds.get(cacheKey) ?? [];
+    if (!known.includes(keyId)) {
+      this.keyIds.set(cacheKey, [...known, keyId]);
+    }
+  }
+
+  /**
+   * Key IDs recorded in a file (one per password slot), most files have one
+   */
+  getFileKeyIds(fileData: EncryptedFileData): string[] {
+    const keyIds = fileData.slots
+      ? fileData.slots.filter(isPasswordSlot).map(slot => slot.keyId)
+      : [fileData.keyId];
+    return keyIds.filter((keyId): keyId is string => !!keyId);
+  }
+
+  /**
+   * Key ID recorded in the payload of in-place encrypted text, if any
+   */
+  getInPlaceKeyId(encryptedText: string): string | undefined {
+    const parsed = this.parseInPlaceEncrypted(encryptedText);
+    if (!parsed || parsed.meld) {
+      return undefined;
+    }
+    try {
+      return this.splitVersionedPayload(Buffer.from(parsed.combinedData, 'base64'))?.keyId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Hash keyfile contents for use as a second factor
+   */
+  hashKeyfile(contents: Uint8Array): Buffer {
+    return crypto.createHash('sha256').update(contents).digest();
+  }
+
+  /**
+   * Resolve the cipher and KDF parameters recorded in a file header.
+   * Version 1.0 files fall back to the parameters they were written with.
+   */
+  getFileParams(fileData: EncryptedFileData): CryptoParams {
+    return {
+      cipher: fileData.cipher ?? LEGACY_PARAMS.cipher,
+      kdf: fileData.kdf ?? LEGACY_PARAMS.kdf
+    };
+  }
+
+  /**
+   * KDF parameters protecting a file: one per password slot, or the header's
+   */
+  getFileKdfs(fileData: EncryptedFileData): KdfParams[] {
+    return fileData.slots
+      ? fileData.slots.filter(isPasswordSlot).map(slot => slot.kdf)
+      : [this.getFileParams(fileData).kdf];
+  }
+
+  /**
+   * Check whether a file was written with an older format or weaker
+   * parameters than the current defaults, comparing only what
+   * upgradeFileData rewrites: the content, the recipient slots and the
+   * password slot it unlocks. With several password slots only those
+   * `isOwnSlot` accepts count, as the others need their own password.
+   * Files without password slots cannot be upgraded with a password.
+   */
+  needsUpgrade(fileData: EncryptedFileData, isOwnSlot: (slot: PasswordKeySlot) => boolean = () => false): boolean {
+    const passwordSlots = fileData.slots?.filter(isPasswordSlot);
+    if (passwordSlots?.length === 0) {
+      return false;
+    }
+    if (fileData.version !== CURRENT_FILE_VERSION) {
+      return true;
+    }
+    const defaults = this.defaultParams;
+    const upgradedSlots = passwordSlots && passwordSlots.length > 1 ? passwordSlots.filter(isOwnSlot) : passwordSlots;
+    const kdfs = upgradedSlots ? upgradedSlots.map(slot => slot.kdf) : this.getFileKdfs(fileData);
+    const ciphers = [
+      fileData.cipher ?? LEGACY_PARAMS.cipher,
+      ...(upgradedSlots ?? []).map(slot => slot.cipher),
+      ...(fileData.slots ?? []).filter(isRecipientSlot).map(slot => slot.cipher)
+    ];
+    if (ciphers.some(cipher => cipher !== defaults.cipher)) {
+      return true;
+    }
+    return kdfs.some(kdf => {
+      if (kdf.name !== defaults.kdf.name) {
+        return true;
+      }
+      try {
+        return cryptoRegistry.getKdf(kdf.name).isWeaker(kdf, defaults.kdf);
+      } catch {
+        return true;
+      }
+    });
+  }
+
+  /**
+   * Encrypt raw bytes with freshly generated salt and IV
+   * @param aad Builds the associated data from the salt and key verifier
+   */
+  private async encryptBytes(
+    plaintext: Buffer,
+    password: string,
+    params: CryptoParams,
+    keyfileHash?: Buffer,
+    aad?: (salt: Buffer, keyCheck: Buffer) => Buffer
+  ): Promise<{ ciphertext: Buffer; salt: Buffer; iv: Buffer; authTag: Buffer; keyCheck: Buffer }> {
+    const cipher = cryptoRegistry.getCipher(params.cipher);
+
+    // Generate random salt and IV
+    const salt = crypto.randomBytes(this.SALT_LENGTH);
+    const iv = crypto.randomBytes(cipher.ivLength);
+
+    // Derive key from password and encrypt
+    const key = await this.deriveKey(password, salt, params, keyfileHash);
+    const keyCheck = computeKeyCheck(key);
+    const { ciphertext, authTag } = cipher.encrypt(key, iv, plaintext, aad?.(salt, keyCheck));
+
+    return { ciphertext, salt, iv, authTag, keyCheck };
+  }
+
+  /**
+   * Decrypt raw bytes
+   * Returns null if decryption fails (wrong password or unsupported parameters)
+   * Rejects with KdfCancelledError if `signal` is aborted, and with
+   * HeaderModifiedError if the KDF parameters are above the limits or the key
+   * matches `keyCheck` but authentication fails
+   */
+  private async decryptBytes(
+    ciphertext: Buffer,
+    password: string,
+    salt: Buffer,
+    iv: Buffer,
+    authTag: Buffer,
+    params: CryptoParams,
+    options: { keyfileHash?: Buffer; signal?: AbortSignal; aad?: Buffer; keyCheck?: string } = {}
+  ): Promise<Buffer | null> {
+    let key: Buffer;
+    let cipher;
+    try {
+      cipher = cryptoRegistry.getCipher(params.cipher);
+      key = await this.deriveKey(password, salt, params, options.keyfileHash, options.signal);
+    } catch (error) {
+      if (error instanceof KdfCancelledError) {
+        throw error;
+      }
+      if (error instanceof KdfParamsError) {
+        // Nothing is derived for such a header, e.g. one crafted to pin the CPU
+        throw new HeaderModifiedError(error.message);
+      }
+      return null;
+    }
+
+    if (options.keyCheck && !matchesKeyCheck(key, options.keyCheck)) {
+      return null;
+    }
+    try {
+      return cipher.decrypt(key, iv, ciphertext, authTag, options.aad);
+    } catch {
+      if (options.keyCheck) {
+        throw new HeaderModifiedError();
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Encrypt plaintext to Base64 encoded ciphertext
+   */
+  async encryptToBase64(
+    plaintext: string,
+    password: string,
+    params: CryptoParams = this.defaultParams,
+    keyfileHash?: Buffer
+  ): Promise<EncryptionResult> {
+    const result = await this.encryptBytes(Buffer.from(plaintext, 'utf8'), password, params, keyfileHash);
+    return {
+      ciphertext: result.ciphertext.toString('base64'),
+      salt: result.salt.toString('base64'),
+      iv: result.iv.toString('base64'),
+      authTag: result.authTag.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt Base64 encoded ciphertext
+   * Returns null if decryption fails (wrong password)
+   */
+  async decryptFromBase64(
+    base64Ciphertext: string,
+    password: string,
+    base64Salt: string,
+    base64Iv: string,
+    base64AuthTag: string,
+    params: CryptoParams = LEGACY_PARAMS,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const plaintext = await this.decryptBytes(
+      Buffer.from(base64Ciphertext, 'base64'),
+      password,
+      Buffer.from(base64Salt, 'base64'),
+      Buffer.from(base64Iv, 'base64'),
+      Buffer.from(base64AuthTag, 'base64'),
+      params,
+      { keyfileHash, signal }
+    );
+    return plaintext ? plaintext.toString('utf8') : null;
+  }
+
+  /**
+   * Encrypt file content to EncryptedFileData format
+   * @param keyfileHash Optional keyfile hash (see hashKeyfile) required in addition to the password
+   */
+  async encryptFileContent(
+    content: string,
+    password: string,
+    hint?: string,
+    keyfileHash?: Buffer
+  ): Promise<EncryptedFileData> {
+    const params = this.defaultParams;
+    const compressed = compressionService.compress(Buffer.from(content, 'utf8'));
+    const header: EncryptedFileData = {
+      version: CURRENT_FILE_VERSION,
+      cipher: params.cipher,
+      kdf: { ...params.kdf },
+      keyfile: keyfileHash ? true : undefined,
+      keyId: this.getKeyId(password),
+      hint,
+      compression: compressed.algorithm,
+      ciphertext: '',
+      iv: '',
+      authTag: ''
+    };
+    const result = await this.encryptBytes(
+      compressed.data,
+      password,
+      params,
+      keyfileHash,
+      (salt, keyCheck) => fileHeaderAad({
+        ...header,
+        salt: salt.toString('base64'),
+        keyCheck: keyCheck.toString('base64')
+      })
+    );
+    return {
+      ...header,
+      keyCheck: result.keyCheck.toString('base64'),
+      ciphertext: result.ciphertext.toString('base64'),
+      salt: result.salt.toString('base64'),
+      iv: result.iv.toString('base64'),
+      authTag: result.authTag.toString('base64')
+    };
+  }
+
+  /**
+   * Decrypt file data from EncryptedFileData format
+   * Uses the cipher and KDF parameters recorded in the file header
+   * Returns null if the file requires a keyfile and none is given
+   */
+  async decryptFileData(
+    fileData: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    return (await this.openFileData(fileData, password, keyfileHash, signal))?.content ?? null;
+  }
+
+  /**
+   * Decrypt file data and, for key-slot files, also return the unwrapped data key
+   * so the content can be re-encrypted on save without touching the slots
+   */
+  async openFileData(
+    fileData: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<{ content: string; dataKey?: Buffer } | null> {
+    if (fileData.slots) {
+      const unlocked = await this.unlockDataKey(fileData, password, keyfileHash, signal);
+      if (!unlocked) {
+        return null;
+      }
+      return { content: this.decryptWithDataKey(fileData, unlocked.dataKey), dataKey: unlocked.dataKey };
+    }
+
+    if ((fileData.keyfile && !keyfileHash) || !fileData.salt) {
+      return null;
+    }
+    const authenticated = isAuthenticatedVersion(fileData.version);
+    // A verifier without authentication means the version was downgraded
+    if (authenticated !== !!fileData.keyCheck) {
+      throw new HeaderModifiedError();
+    }
+    const plaintext = await this.decryptBytes(
+      Buffer.from(fileData.ciphertext, 'base64'),
+      password,
+      Buffer.from(fileData.salt, 'base64'),
+      Buffer.from(fileData.iv, 'base64'),
+      Buffer.from(fileData.authTag, 'base64'),
+      this.getFileParams(fileData),
+      {
+        keyfileHash: fileData.keyfile ? keyfileHash : undefined,
+        signal,
+        aad: authenticated ? fileHeaderAad(fileData) : undefined,
+        keyCheck: fileData.keyCheck
+      }
+    );
+    if (plaintext === null) {
+      return null;
+    }
+    if (fileData.keyId) {
+      this.rememberKeyId(password, fileData.keyId);
+    }
+    return { content: compressionService.decompress(plaintext, fileData.compression).toString('utf8') };
+  }
+
+  /**
+   * Re-encrypt file data with the current default parameters
+   * For key-slot files the slot unlocked by the password and the recipient
+   * slots are re-wrapped; other password slots need their own password
+   * Returns null if the password does not decrypt the existing data
+   */
+  async upgradeFileData(
+    fileData: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<EncryptedFileData | null> {
+    if (fileData.slots) {
+      const unlocked = await this.unlockDataKey(fileData, password, keyfileHash, signal);
+      if (!unlocked) {
+        return null;
+      }
+      const content = this.decryptWithDataKey(fileData, unlocked.dataKey);
+      const slot = unlocked.slot;
+      const newSlot = await this.createKeySlot(unlocked.dataKey, password, {
+        hint: slot.hint,
+        label: slot.label,
+        keyfileHash: slot.keyfile ? keyfileHash : undefined
+      });
+      const slots = fileData.slots.map(s => {
+        if (s.id === slot.id) {
+          return { ...newSlot, id: slot.id, created: slot.created };
+        }
+        if (isRecipientSlot(s)) {
+          const rewrapped = this.createRecipientSlot(unlocked.dataKey, { name: s.label ?? '', publicKey: s.recipient });
+          return { ...rewrapped, id: s.id, created: s.created };
+        }
+        return s;
+      });
+      return this.encryptWithDataKey(content, unlocked.dataKey, {
+        ...fileData,
+        cipher: this.defaultParams.cipher,
+        slots
+      });
+    }
+
+    const content = await this.decryptFileData(fileData, password, keyfileHash, signal);
+    if (content === null) {
+      return null;
+    }
+    return {
+      ...await this.encryptFileContent(content, password, fileData.hint, fileData.keyfile ? keyfileHash : undefined),
+      history: fileData.history
+    };
+  }
+
+  /**
+   * Re-encrypt file data under a new password.
+   * For key-slot files only the slot unlocked by the current password is replaced.
+   * The keyfile requirement is kept as it is, and so is the hint when
+   * `newHint` is undefined.
+   * Returns null if the current password does not decrypt the existing data
+   */
+  async changeFileDataPassword(
+    fileData: EncryptedFileData,
+    currentPassword: string,
+    newPassword: string,
+    newHint: string | undefined,
+    keyfileHash?: Buffer
+  ): Promise<EncryptedFileData | null> {
+    if (fileData.slots) {
+      const unlocked = await this.unlockDataKey(fileData, currentPassword, keyfileHash);
+      if (!unlocked) {
+        return null;
+      }
+      const slot = unlocked.slot;
+      const newSlot = await this.createKeySlot(unlocked.dataKey, newPassword, {
+        hint: newHint ?? slot.hint,
+        label: slot.label,
+        keyfileHash: slot.keyfile ? keyfileHash : undefined
+      });
+      const content = this.decryptWithDataKey(fileData, unlocked.dataKey);
+      return this.encryptWithDataKey(content, unlocked.dataKey, {
+        ...fileData,
+        slots: fileData.slots.map(s => s.id === slot.id ? { ...newSlot, id: slot.id } : s)
+      });
+    }
+
+    const content = await this.decryptFileData(fileData, currentPassword, keyfileHash);
+    if (content === null) {
+      return null;
+    }
+    const fileKeyfileHash = fileData.keyfile ? keyfileHash : undefined;
+    // History under the old password would become unreadable, so it moves to the new one
+    const revisions = fileData.history && await this.decryptHistory(fileData.history, currentPassword, fileKeyfileHash);
+    return {
+      ...await this.encryptFileContent(content, newPassword, newHint ?? fileData.hint, fileKeyfileHash),
+      history: revisions ? await this.encryptHistory(revisions, newPassword, fileKeyfileHash) : fileData.history
+    };
+  }
+
+  // ── Revision history ───────────────────────────────────────
+
+  /**
+   * Encrypt earlier revisions for the `history` field: with the data key of
+   * key-slot files, otherwise with the password (and keyfile)
+   */
+  async encryptHistory(
+    revisions: FileRevision[],
+    password: string,
+    keyfileHash?: Buffer,
+    dataKey?: Buffer
+  ): Promise<EncryptedFileData> {
+    const json = JSON.stringify(revisions);
+    if (dataKey) {
+      return this.encryptWithDataKey(json, dataKey, {
+        version: CURRENT_FILE_VERSION,
+        slots: [],
+        ciphertext: '',
+        iv: '',
+        authTag: ''
+      });
+    }
+    return this.encryptFileContent(json, password, undefined, keyfileHash);
+  }
+
+  /**
+   * Decrypt the `history` field of a file
+   * Returns null if the password or data key does not decrypt it
+   * Throws HeaderModifiedError if it was changed
+   */
+  async decryptHistory(
+    history: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    dataKey?: Buffer
+  ): Promise<FileRevision[] | null> {
+    let json: string | null;
+    if (history.slots) {
+      json = dataKey ? this.decryptWithDataKey(history, dataKey) : null;
+    } else {
+      json = password ? await this.decryptFileData(history, password, keyfileHash) : null;
+    }
+    if (json === null) {
+      return null;
+    }
+    const revisions: unknown = JSON.parse(json);
+    if (!Array.isArray(revisions)) {
+      throw new HeaderModifiedError();
+    }
+    return revisions.filter((revision): revision is FileRevision =>
+      typeof revision?.saved === 'string' && typeof revision?.content === 'string'
+    );
+  }
+
+  // ── Key slots ──────────────────────────────────────────────
+
+  /**
+   * Wrap a data key under a password in a new key slot
+   */
+  private async createKeySlot(
+    dataKey: Buffer,
+    password: string,
+    options: { hint?: string; label?: string; keyfileHash?: Buffer }
+  ): Promise<PasswordKeySlot> {
+    const params = this.defaultParams;
+    const result = await this.encryptBytes(dataKey, password, params, options.keyfileHash);
+    return {
+      id: crypto.randomBytes(4).toString('hex'),
+      type: 'password',
+      keyCheck: result.keyCheck.toString('base64'),
+      keyId: this.getKeyId(password),
+      label: options.label || undefined,
+      hint: options.hint || undefined,
+      created: new Date().toISOString(),
+      cipher: params.cipher,
+      kdf: { ...params.kdf },
+      keyfile: options.keyfileHash ? true : undefined,
+      salt: result.salt.toString('base64'),
+      iv: result.iv.toString('base64'),
+      wrappedKey: result.ciphertext.toString('base64'),
+      authTag: result.authTag.toString('base64')
+    };
+  }
+
+  /**
+   * Find the key slot that the password (and keyfile) unlocks and return the data key
+   * Returns null if no slot matches
+   * Throws HeaderModifiedError if the password matches a slot whose wrapped key was changed
+   */
+  async unlockDataKey(
+    fileData: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<{ dataKey: Buffer; slot: PasswordKeySlot } | null> {
+    for (const slot of (fileData.slots ?? []).filter(isPasswordSlot)) {
+      if (slot.keyfile && !keyfileHash) {
+        continue;
+      }
+      const dataKey = await this.decryptBytes(
+        Buffer.from(slot.wrappedKey, 'base64'),
+        password,
+        Buffer.from(slot.salt, 'base64'),
+        Buffer.from(slot.iv, 'base64'),
+        Buffer.from(slot.authTag, 'base64'),
+        { cipher: slot.cipher, kdf: slot.kdf },
+        { keyfileHash: slot.keyfile ? keyfileHash : undefined, signal, keyCheck: slot.keyCheck }
+      );
+      if (dataKey) {
+        if (slot.keyId) {
+          this.rememberKeyId(password, slot.keyId);
+        }
+        return { dataKey, slot };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Encrypt content with a data key, keeping the slots and history of `template`
+   * The slots are authenticated with the content, so any change to them
+   * requires re-encrypting the content
+   */
+  encryptWithDataKey(content: string, dataKey: Buffer, template: EncryptedFileData): EncryptedFileData {
+    const cipher = cryptoRegistry.getCipher(template.cipher ?? this.defaultParams.cipher);
+    const iv = crypto.randomBytes(cipher.ivLength);
+    const slots = template.slots ?? [];
+    const compressed = compressionService.compress(Buffer.from(content, 'utf8'));
+    const header = { version: CURRENT_FILE_VERSION, compression: compressed.algorithm };
+    const aad = slotFileAad(header, cipher.name, slots);
+    const { ciphertext, authTag } = cipher.encrypt(dataKey, iv, compressed.data, aad);
+    return {
+      ...header,
+      cipher: cipher.name,
+      keyfile: requiresKeyfile(slots),
+      hint: primaryHint(slots),
+      slots,
+      ciphertext: ciphertext.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: authTag.toString('base64'),
+      history: template.history
+    };
+  }
+
+  /**
+   * Decrypt the content of a key-slot file with its data key
+   * Throws HeaderModifiedError if the content or, since 3.0, the slots or hint were changed
+   */
+  decryptWithDataKey(fileData: EncryptedFileData, dataKey: Buffer): string {
+    const authenticated = isAuthenticatedVersion(fileData.version);
+    const slots = fileData.slots ?? [];
+    // The top-level hint is shown before unlocking, so it must match the authenticated slots
+    if (authenticated && (fileData.hint ?? undefined) !== primaryHint(slots)) {
+      throw new HeaderModifiedError();
+    }
+    let plaintext: Buffer;
+    try {
+      const cipher = cryptoRegistry.getCipher(fileData.cipher ?? LEGACY_PARAMS.cipher);
+      plaintext = cipher.decrypt(
+        dataKey,
+        Buffer.from(fileData.iv, 'base64'),
+        Buffer.from(fileData.ciphertext, 'base64'),
+        Buffer.from(fileData.authTag, 'base64'),
+        authenticated ? slotFileAad(fileData, cipher.name, slots) : undefined
+      );
+    } catch {
+      throw new HeaderModifiedError();
+    }
+    return compressionService.decompress(plaintext, fileData.compression).toString('utf8');
+  }
+
+  /**
+   * Convert a password-encrypted file to key slots.
+   * The current password becomes the first slot.
+   * Returns null if the password does not decrypt the file.
+   */
+  async convertToKeySlots(
+    fileData: EncryptedFileData,
+    password: string,
+    keyfileHash?: Buffer,
+    signal?: AbortSignal
+  ): Promise<{ fileData: EncryptedFileData; dataKey: Buffer } | null> {
+    if (fileData.slots) {
+      const unlocked = await this.unlockDataKey(fileData, password, keyfileHash, signal);
+      return unlocked ? { fileData, dataKey: unlocked.dataKey } : null;
+    }
+
+    const content = await this.decryptFileData(fileData, password, keyfileHash, signal);
+    if (content === null) {
+      return null;
+    }
+
+    const dataKey = crypto.randomBytes(cryptoRegistry.getCipher(this.defaultParams.cipher).keyLength);
+    const fileKeyfileHash = fileData.keyfile ? keyfileHash : undefined;
+    const slot = await this.createKeySlot(dataKey, password, {
+      hint: fileData.hint,
+      keyfileHash: fileKeyfileHash
+    });
+    // History left under the password would stay readable with it after its slot is revoked
+    const revisions = fileData.history && await this.decryptHistory(fileData.history, password, fileKeyfileHash);
+    const converted = this.encryptWithDataKey(content, dataKey, {
+      ...fileData,
+      cipher: this.defaultParams.cipher,
+      slots: [slot],
+      history: revisions ? await this.encryptHistory(revisions, '', undefined, dataKey) : fileData.history
+    });
+    return { fileData: converted, dataKey };
+  }
+
+  /**
+   * Add a key slot wrapping the data key under another password.
+   * The content is re-sealed with the same data key to authenticate the new slot.
+   */
+  async addKeySlot(
+    fileData: EncryptedFileData,
+    dataKey: Buffer,
+    password: string,
+    options: { hint?: string; label?: string; keyfileHash?: Buffer } = {}
+  ): Promise<EncryptedFileData> {
+    const content = this.decryptWithDataKey(fileData, dataKey);
+    const slots = [...(fileData.slots ?? []), await this.createKeySlot(dataKey, password, options)];
+    return this.encryptWithDataKey(content, dataKey, { ...fileData, slots });
+  }
+
+  /**
+   * Remove a key slot. The content is re-sealed with the same data key.
+   * Throws if the slot is unknown or is the last one.
+   */
+  revokeKeySlot(fileData: EncryptedFileData, dataKey: Buffer, slotId: string): EncryptedFileData {
+    const slots = fileData.slots ?? [];
+    if (!slots.some(s => s.id === slotId)) {
+      throw new Error(`Unknown key slot: ${slotId}`);
+    }
+    if (slots.length === 1) {
+      throw new Error('Cannot revoke the last key slot');
+    }
+    const content = this.decryptWithDataKey(fileData, dataKey);
+    return this.encryptWithDataKey(content, dataKey, {
+      ...fileData,
+      slots: slots.filter(s => s.id !== slotId)
+    });
+  }
+
+  // ── X25519 recipients ──────────────────────────────────────
+
+  /**
+   * Generate an X25519 key pair
+   * Returns the raw public key (base64) and the private key as PKCS#8 PEM
+   */
+  generateIdentity(): { publicKey: string; privateKey: string } {
+    const { privateKey } = crypto.generateKeyPairSync('x25519');
+    return {
+      publicKey: this.exportPublicKey(crypto.createPublicKey(privateKey)),
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+    };
+  }
+
+  /**
+   * Get the raw public key (base64) of a PEM private key
+   * Throws if the key is not an X25519 private key
+   */
+  getIdentityPublicKey(privateKeyPem: string): string {
+    const privateKey = crypto.createPrivateKey(privateKeyPem);
+    if (privateKey.asymmetricKeyType !== 'x25519') {
+      throw new Error('Not an X25519 private key');
+    }
+    return this.exportPublicKey(crypto.createPublicKey(privateKey));
+  }
+
+  private exportPublicKey(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    return Buffer.from(jwk.x as string, 'base64url').toString('base64');
+  }
+
+  private importPublicKey(rawBase64: string): crypto.KeyObject {
+    const raw = Buffer.from(rawBase64, 'base64');
+    if (raw.length !== 32) {
+      throw new Error('Invalid X25519 public key');
+    }
+    return crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'X25519', x: raw.toString('base64url') },
+      format: 'jwk'
+    });
+  }
+
+  /**
+   * Derive the key that wraps a data key for one recipient
+   */
+  private deriveRecipientWrapKey(
+    privateKey: crypto.KeyObject,
+    publicKey: crypto.KeyObject,
+    ephemeralPublicKey: string,
+    recipient: string,
+    keyLength: number
+  ): Buffer {
+    const shared = crypto.diffieHellman({ privateKey, publicKey });
+    const salt = Buffer.concat([Buffer.from(ephemeralPublicKey, 'base64'), Buffer.from(recipient, 'base64')]);
+    return Buffer.from(crypto.hkdfSync('sha256', shared, salt, RECIPIENT_WRAP_INFO, keyLength));
+  }
+
+  /**
+   * Wrap a data key to a recipient's public key using a fresh ephemeral key pair
+   */
+  private createRecipientSlot(dataKey: Buffer, recipient: Recipient): RecipientKeySlot {
+    const cipher = cryptoRegistry.getCipher(this.defaultParams.cipher);
+    const ephemeral = crypto.generateKeyPairSync('x25519');
+    const ephemeralPublicKey = this.exportPublicKey(ephemeral.publicKey);
+    const wrapKey = this.deriveRecipientWrapKey(
+      ephemeral.privateKey,
+      this.importPublicKey(recipient.publicKey),
+      ephemeralPublicKey,
+      recipient.publicKey,
+      cipher.keyLength
+    );
+    const iv = crypto.randomBytes(cipher.ivLength);
+    const { ciphertext, authTag } = cipher.encrypt(wrapKey, iv, dataKey);
+    return {
+      id: crypto.randomBytes(4).toString('hex'),
+      type: 'x25519',
+      label: recipient.name || undefined,
+      created: new Date().toISOString(),
+      cipher: cipher.name,
+      recipient: recipient.publicKey,
+      ephemeralPublicKey,
+      iv: iv.toString('base64'),
+      wrappedKey: ciphertext.toString('base64'),
+      authTag: authTag.toString('base64')
+    };
+  }
+
+  /**
+   * Find the recipient slot for a private key and return the data key
+   * Returns null if the key is not a recipient of the file
+   */
+  unlockDataKeyWithIdentity(
+    fileData: EncryptedFileData,
+    privateKeyPem: string
+  ): { dataKey: Buffer; slot: RecipientKeySlot } | null {
+    try {
+      const privateKey = crypto.createPrivateKey(privateKeyPem);
+      const publicKey = this.getIdentityPublicKey(privateKeyPem);
+      for (const slot of (fileData.slots ?? []).filter(isRecipientSlot)) {
+        if (slot.recipient !== publicKey) {
+          continue;
+        }
+        try {
+          const cipher = cryptoRegistry.getCipher(slot.cipher);
+          const wrapKey = this.deriveRecipientWrapKey(
+            privateKey,
+            this.importPublicKey(slot.ephemeralPublicKey),
+            slot.ephemeralPublicKey,
+            slot.recipient,
+            cipher.keyLength
+          );
+          const dataKey = cipher.decrypt(
+            wrapKey,
+            Buffer.from(slot.iv, 'base64'),
+            Buffer.from(slot.wrappedKey, 'base64'),
+            Buffer.from(slot.authTag, 'base64')
+          );
+          return { dataKey, slot };
+        } catch {
+          // Tampered slot, try the next one
+        }
+      }
+    } catch {
+      // Invalid private key
+    }
+    return null;
+  }
+
+  /**
+   * Decrypt file data with a recipient's private key
+   */
+  openFileDataWithIdentity(
+    fileData: EncryptedFileData,
+    privateKeyPem: string
+  ): { content: string; dataKey: Buffer } | null {
+    const unlocked = this.unlockDataKeyWithIdentity(fileData, privateKeyPem);
+    if (!unlocked) {
+      return null;
+    }
+    return { content: this.decryptWithDataKey(fileData, unlocked.dataKey), dataKey: unlocked.dataKey };
+  }
+
+  /**
+   * Check whether file data is wrapped to at least one recipient
+   */
+  hasRecipients(fileData: EncryptedFileData): boolean {
+    return (fileData.slots ?? []).some(isRecipientSlot);
+  }
+
+  /**
+   * Encrypt content for recipients only (no password)
+   */
+  encryptForRecipients(content: string, recipients: Recipient[]): { fileData: EncryptedFileData; dataKey: Buffer } {
+    if (recipients.length === 0) {
+      throw new Error('No recipients');
+    }
+    const dataKey = crypto.randomBytes(cryptoRegistry.getCipher(this.defaultParams.cipher).keyLength);
+    const fileData = this.encryptWithDataKey(content, dataKey, {
+      version: CURRENT_FILE_VERSION,
+      cipher: this.defaultParams.cipher,
+      slots: recipients.map(recipient => this.createRecipientSlot(dataKey, recipient)),
+      ciphertext: '',
+      iv: '',
+      authTag: ''
+    });
+    return { fileData, dataKey };
+  }
+
+  /**
+   * Replace the recipient slots with fresh ones for the given recipients; password slots are kept.
+   * Without password slots the data key is rotated as well, so removed recipients
+   * cannot read content written from now on. Re-encrypt the content with the returned key.
+   */
+  rewrapForRecipients(
+    fileData: EncryptedFileData,
+    dataKey: Buffer,
+    recipients: Recipient[]
+  ): { fileData: EncryptedFileData; dataKey: Buffer } {
+    const passwordSlots = (fileData.slots ?? []).filter(isPasswordSlot);
+    if (recipients.length === 0 && passwordSlots.length === 0) {
+      throw new Error('No recipients');
+    }
+    const newDataKey = passwordSlots.length === 0
+      ? crypto.randomBytes(dataKey.length)
+      : dataKey;
+    const slots = [
+      ...passwordSlots,
+      ...recipients.map(recipient => this.createRecipientSlot(newDataKey, recipient))
+    ];
+    return { fileData: { ...fileData, slots }, dataKey: newDataKey };
+  }
+
+  /**
+   * Encrypt text for in-place encryption (compact format)
+   * Returns format: 🔐hint:base64data🔐 or 🔐base64data🔐
+   *
+   * The base64data is a versioned payload:
+   * magic + version + header length + JSON header + salt + iv + authTag + ciphertext.
+   * The JSON header holds the parameters, the compression (if any), the
+   * key verifier and the key ID; the bytes up to
+   * the header, the salt and the hint are authenticated with the ciphertext.
+   * Unversioned payloads (salt + iv + authTag + ciphertext, as written by
+   * Obsidian Encrypt v2.0) are still decrypted.
+   */
+  async encryptInPlace(text: string, password: string, hint?: string, showMarker: boolean = true): Promise<string> {
+    const params = this.defaultParams;
+    const compressed = compressionService.compress(Buffer.from(text, 'utf8'));
+    const keyId = this.getKeyId(password);
+    let prefix = Buffer.alloc(0);
+    const result = await this.encryptBytes(compressed.data, password, params, undefined, (salt, keyCheck) => {
+      const header = Buffer.from(JSON.stringify({
+        cipher: params.cipher,
+        kdf: params.kdf,
+        compression: compressed.algorithm,
+        keyCheck: keyCheck.toString('base64'),
+        keyId
+      }), 'utf8');
+      const headerLength = Buffer.alloc(2);
+      headerLength.writeUInt16BE(header.length);
+      prefix = Buffer.concat([MARKER_MAGIC, Buffer.from([MARKER_VERSION]), headerLength, header]);
+      return inPlaceAad(prefix, salt, hint);
+    });
+
+    const combinedBase64 = Buffer.concat([prefix, result.salt, result.iv, result.authTag, result.ciphertext]).toString('base64');
+
+    const data = hint ? `${hint}:${combinedBase64}` : combinedBase64;
+    const open = showMarker ? '🔐' : '%%🔐';
+    const close = showMarker ? '🔐' : '🔐%%';
+    return `${open}${data}${close}`;
+  }
+
+  /**
+   * Parse in-place encrypted text
+   * Returns { hint, ciphertext } or null
+   * The ciphertext is the combined base64 data (salt + iv + authTag + actual ciphertext),
+   * or the Meld Encrypt payload when `meld` is set
+   */
+  parseInPlaceEncrypted(
+    text: string
+  ): { hint?: string; combinedData: string; meld?: { version: MeldMarkerVersion; hidden: boolean } } | null {
+    const meldMatch = MELD_HIDDEN_PATTERN.exec(text) ?? MELD_VISIBLE_PATTERN.exec(text);
+    if (meldMatch) {
+      const version: MeldMarkerVersion = meldMatch[1] === 'β' ? 'beta' : meldMatch[1] === 'α' ? 'alpha' : 'obsolete';
+      return {
+        hint: meldMatch[2] || undefined,
+        combinedData: meldMatch[3],
+        meld: { version, hidden: meldMatch[0].startsWith('%%') }
+      };
+    }
+
+    // Match patterns: 🔐hint:combinedData🔐 or 🔐combinedData🔐 or %%🔐...🔐%%
+    const patterns = [
+      /🔐([^:🔐]+):([A-Za-z0-9+/=]+)🔐/,  // with hint
+      /🔐([A-Za-z0-9+/=]+)🔐/,            // without hint
+      /%%🔐([^:🔐]+):([A-Za-z0-9+/=]+)🔐%%/,  // hidden with hint
+      /%%🔐([A-Za-z0-9+/=]+)🔐%%/         // hidden without hint
+    ];
+
+    for (const pattern of patterns) {
+      const match = pattern.exec(text);
+      if (match) {
+        if (match.length === 3) {
+          return { hint: match[1], combinedData: match[2] };
+        } else if (match.length === 2) {
+          return { combinedData: match[1] };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Decrypt in-place encrypted text
+   */
+  async decryptInPlace(encryptedText: string, password: string): Promise<string | null> {
+    const parsed = this.parseInPlaceEncrypted(encryptedText);
+    if (!parsed) {
+      return null;
+    }
+
+    const combined = Buffer.from(parsed.combinedData, 'base64');
+    if (parsed.meld) {
+      return this.decryptMeldPayload(combined, password, parsed.meld.version);
+    }
+
+    const versioned = this.splitVersionedPayload(combined);
+    if (versioned) {
+      if (!versioned.keyCheck) {
+        return this.decryptCombined(versioned.body, password, versioned.params);
+      }
+      const salt = versioned.body.subarray(0, this.SALT_LENGTH);
+      const text = await this.decryptCombined(versioned.body, password, versioned.params, {
+        aad: inPlaceAad(versioned.prefix, salt, parsed.hint),
+        keyCheck: versioned.keyCheck,
+        compression: versioned.compression
+      });
+      if (text !== null && versioned.keyId) {
+        this.rememberKeyId(password, versioned.keyId);
+      }
+      return text;
+    }
+
+    return this.decryptCombined(combined, password, LEGACY_PARAMS);
+  }
+
+  /**
+   * Encrypt text as an Obsidian Meld Encrypt marker (`🔐β `), so notes shared
+   * with an Obsidian vault stay readable there
+   */
+  async encryptMeldInPlace(text: string, password: string, hint?: string, hidden: boolean = true): Promise<string> {
+    const data = await this.encryptMeldPayload(text, password);
+    const hintPart = hint ? `💡${hint}💡` : '';
+    return hidden ? `%%🔐β ${hintPart}${data} 🔐%%` : `🔐β ${hintPart}${data} 🔐`;
+  }
+
+  /**
+   * Check whether parsed JSON is an Obsidian Meld Encrypt note (.mdenc)
+   */
+  isMeldFileData(data: EncryptedFileData | MeldEncryptedFileData): data is MeldEncryptedFileData {
+    return typeof (data as MeldEncryptedFileData).encodedData === 'string';
+  }
+
+  /**
+   * Encrypt a whole note in the Meld Encrypt .mdenc format (version 2.0)
+   */
+  async encryptMeldFileData(content: string, password: string, hint?: string): Promise<MeldEncryptedFileData> {
+    return {
+      version: MELD_FILE_VERSION,
+      hint: hint ?? '',
+      encodedData: await this.encryptMeldPayload(content, password)
+    };
+  }
+
+  /**
+   * Decrypt a Meld Encrypt .mdenc note
+   * Returns null if the password is wrong; throws for unknown versions
+   */
+  async decryptMeldFileData(
+    fileData: MeldEncryptedFileData,
+    password: string,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const version: MeldMarkerVersion | undefined = fileData.version === MELD_FILE_VERSION
+      ? 'beta'
+      : fileData.version === '1.0' ? 'alpha' : undefined;
+    if (!version) {
+      throw new Error(`Unsupported Meld Encrypt file version ${fileData.version}`);
+    }
+    return this.decryptMeldPayload(Buffer.from(fileData.encodedData, 'base64'), password, version, signal);
+  }
+
+  /**
+   * Encrypt to base64 of iv + salt + ciphertext + authTag (Meld Encrypt `β`)
+   */
+  private async encryptMeldPayload(text: string, password: string): Promise<string> {
+    const params = MELD_PARAMS.beta;
+    const salt = crypto.randomBytes(MELD_SALT_LENGTH);
+    const iv = crypto.randomBytes(MELD_IV_LENGTH);
+    const key = await this.deriveKey(password, salt, params);
+    const { ciphertext, authTag } = cryptoRegistry.getCipher(params.cipher).encrypt(key, iv, Buffer.from(text, 'utf8'));
+    return Buffer.concat([iv, salt, ciphertext, authTag]).toString('base64');
+  }
+
+  /**
+   * Decrypt a Meld Encrypt payload of the given version
+   * Returns null if the password is wrong or the payload is too short
+   */
+  private async decryptMeldPayload(
+    data: Buffer,
+    password: string,
+    version: MeldMarkerVersion,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    if (version === 'obsolete') {
+      if (data.length < MELD_AUTH_TAG_LENGTH) {
+        return null;
+      }
+      const key = crypto.createHash('sha256').update(password, 'utf8').digest();
+      try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, MELD_OBSOLETE_IV);
+        decipher.setAuthTag(data.subarray(-MELD_AUTH_TAG_LENGTH));
+        return Buffer.concat([decipher.update(data.subarray(0, -MELD_AUTH_TAG_LENGTH)), decipher.final()]).toString('utf8');
+      } catch {
+        return null;
+      }
+    }
+
+    const saltLength = version === 'beta' ? MELD_SALT_LENGTH : 0;
+    const bodyStart = MELD_IV_LENGTH + saltLength;
+    if (data.length < bodyStart + MELD_AUTH_TAG_LENGTH) {
+      return null;
+    }
+    const plaintext = await this.decryptBytes(
+      data.subarray(bodyStart, -MELD_AUTH_TAG_LENGTH),
+      password,
+      version === 'beta' ? data.subarray(MELD_IV_LENGTH, bodyStart) : MELD_ALPHA_SALT,
+      data.subarray(0, MELD_IV_LENGTH),
+      data.subarray(-MELD_AUTH_TAG_LENGTH),
+      MELD_PARAMS[version],
+      { signal }
+    );
+    return plaintext ? plaintext.toString('utf8') : null;
+  }
+
+  /**
+   * Split a versioned in-place payload into its parameters and body.
+   * Returns null if the payload is not versioned (a legacy salt would have to
+   * start with the magic bytes and a parseable JSON header to be mistaken for one).
+   * Throws HeaderModifiedError if an authenticated payload lost its key verifier.
+   */
+  private splitVersionedPayload(
+    combined: Buffer
+  ): {
+    params: CryptoParams;
+    keyCheck?: string;
+    keyId?: string;
+    compression?: CompressionAlgorithm;
+    prefix: Buffer;
+    body: Buffer;
+  } | null {
+    const headerStart = MARKER_MAGIC.length + 3;
+    const version = combined[MARKER_MAGIC.length];
+    if (combined.length < headerStart ||
+      !combined.subarray(0, MARKER_MAGIC.length).equals(MARKER_MAGIC) ||
+      (version !== MARKER_VERSION && version !== MARKER_VERSION_UNAUTHENTICATED)) {
+      return null;
+    }
+
+    let header: CryptoParams & { keyCheck?: string; keyId?: string; compression?: CompressionAlgorithm };
+    const headerEnd = headerStart + combined.readUInt16BE(MARKER_MAGIC.length + 1);
+    try {
+      header = JSON.parse(combined.subarray(headerStart, headerEnd).toString('utf8'));
+      if (typeof header.cipher !== 'string' || !header.kdf) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+    if (version === MARKER_VERSION && typeof header.keyCheck !== 'string') {
+      throw new HeaderModifiedError();
+    }
+    return {
+      params: { cipher: header.cipher, kdf: header.kdf },
+      keyCheck: version === MARKER_VERSION ? header.keyCheck : undefined,
+      keyId: version === MARKER_VERSION && typeof header.keyId === 'string' ? header.keyId : undefined,
+      compression: version === MARKER_VERSION ? header.compression : undefined,
+      prefix: combined.subarray(0, headerEnd),
+      body: combined.subarray(headerEnd)
+    };
+  }
+
+  /**
+   * Decrypt salt + iv + authTag + ciphertext with the given parameters
+   */
+  private async decryptCombined(
+    combined: Buffer,
+    password: string,
+    params: CryptoParams,
+    options: { aad?: Buffer; keyCheck?: string; compression?: CompressionAlgorithm } = {}
+  ): Promise<string | null> {
+    let cipher;
+    try {
+      cipher = cryptoRegistry.getCipher(params.cipher);
+    } catch {
+      return null;
+    }
+
+    const ivEnd = this.SALT_LENGTH + cipher.ivLength;
+    const authTagEnd = ivEnd + cipher.authTagLength;
+    if (combined.length < authTagEnd) {
+      return null;
+    }
+
+    const plaintext = await this.decryptBytes(
+      combined.subarray(authTagEnd),
+      password,
+      combined.subarray(0, this.SALT_LENGTH),
+      combined.subarray(this.SALT_LENGTH, ivEnd),
+      combined.subarray(ivEnd, authTagEnd),
+      params,
+      options
+    );
+    return plaintext ? compressionService.decompress(plaintext, options.compression).toString('utf8') : null;
+  }
+}
+
+// Singleton instance
+export const encryptionService = new EncryptionService();
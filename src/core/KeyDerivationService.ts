@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { cryptoRegistry } from './CryptoRegistry';
+import type { KdfParams } from '../types';
+
+/**
+ * Key derivation request sent to the worker thread
+ */
+export interface KdfJob {
+  secret: string | Uint8Array;
+  salt: Uint8Array;
+  params: KdfParams;
+  keyLength: number;
+}
+
+/**
+ * Raised when a key derivation is cancelled through its AbortSignal
+ */
+export class KdfCancelledError extends Error {
+  constructor() {
+    super('Key derivation cancelled');
+    this.name = 'KdfCancelledError';
+  }
+}
+
+/**
+ * Key Derivation Service running PBKDF2/scrypt in worker threads.
+ * Each derivation gets its own worker, so cancelling one terminates
+ * only that worker and never blocks the extension host.
+ */
+export class KeyDerivationService {
+  private readonly workerPath = path.join(__dirname, '..', 'workers', 'kdfWorker.js');
+
+  /**
+   * Derive a key off the calling thread
+   * Rejects with KdfCancelledError if `signal` is aborted, and without
+   * starting a worker if the parameters are above the supported maximum
+   */
+  derive(
+    secret: string | Buffer,
+    salt: Buffer,
+    params: KdfParams,
+    keyLength: number,
+    signal?: AbortSignal
+  ): Promise<Buffer> {
+    if (signal?.aborted) {
+      return Promise.reject(new KdfCancelledError());
+    }
+    try {
+      cryptoRegistry.validateKdf(params);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const job: KdfJob = { secret, salt, params, keyLength };
+    return new Promise<Buffer>((resolve, reject) => {
+      const worker = new Worker(this.workerPath, { workerData: job });
+      let settled = false;
+
+      const settle = (action: () => void): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        action();
+      };
+      const onAbort = (): void => {
+        settle(() => reject(new KdfCancelledError()));
+        void worker.terminate();
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      worker.once('message', (key: Uint8Array) => {
+        settle(() => resolve(Buffer.from(key.buffer, key.byteOffset, key.byteLength)));
+      });
+      worker.once('error', error => settle(() => reject(error)));
+      worker.once('exit', code => {
+        settle(() => reject(new Error(`Key derivation worker exited with code ${code}`)));
+      });
+    });
+  }
+}
+
+// Singleton instance
+export const keyDerivationService = new KeyDerivationService();
@@ -1,12 +1,18 @@
 import * as vscode from 'vscode';
-import { encryptionService } from '../services/EncryptionService';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
 import { passwordService } from '../services/PasswordService';
-import { PasswordPrompt } from '../ui/PasswordPrompt';
-import type { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
-import type { EncryptedFileData } from '../types';
+import { keyringService } from '../services/KeyringService';
+import { keyfileService } from '../services/KeyfileService';
+import { recipientService } from '../services/RecipientService';
+import { conflictService } from '../services/ConflictService';
+import { KdfCancelledError } from '../core/KeyDerivationService';
+import type { KeyfileSelection } from '../services/KeyfileService';
+import type { EncryptedFileSystem, FileCredentials } from '../providers/EncryptedFileSystem';
+import type { EncryptedFileData, MeldEncryptedFileData } from '../types';
 
 /**
- * Custom Editor for Encrypted Files (.md.enc)
+ * Custom Editor for Encrypted Files (.md.enc, and Obsidian Meld Encrypt .mdenc notes)
  *
  * Serves only as a password-entry gate. After the user enters the
  * correct password the decrypted content is opened in VSCode's native
@@ -34,17 +40,65 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
 
     const filePath = document.uri.fsPath;
 
-    const getFileData = (): EncryptedFileData => {
+    const getFileData = (): EncryptedFileData | MeldEncryptedFileData => {
       return JSON.parse(document.getText());
     };
 
-    const fileData = getFileData();
-    webviewPanel.webview.html = this.getPasswordPromptHtml(fileData.hint);
+    // Keyfile picked in the webview, kept across re-renders
+    let selectedKeyfile: string | undefined;
+    // Running unlock, aborted by the webview's Cancel button
+    let pendingUnlock: AbortController | undefined;
+
+    let fileData: EncryptedFileData | MeldEncryptedFileData;
+    try {
+      fileData = getFileData();
+    } catch {
+      // Git conflict markers or a damaged file: explain instead of failing to open
+      webviewPanel.webview.html = this.getUnreadableHtml(conflictService.hasConflictMarkers(document.getText()));
+      const conflictHandler = webviewPanel.webview.onDidReceiveMessage(message => {
+        if (message.command === 'resolveConflict') {
+          vscode.commands.executeCommand('encrypt.resolveConflict', document.uri);
+        }
+      });
+      webviewPanel.onDidDispose(() => conflictHandler.dispose());
+      return;
+    }
+    // A newer unlock (or the Cancel button) aborts the running one
+    const unlock = async (run: (signal: AbortSignal) => Promise<void>): Promise<void> => {
+      pendingUnlock?.abort();
+      const controller = new AbortController();
+      pendingUnlock = controller;
+      try {
+        await run(controller.signal);
+      } finally {
+        if (pendingUnlock === controller) {
+          pendingUnlock = undefined;
+        }
+      }
+    };
+
+    webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, fileData.hint, false);
+    void this.offerConflictResolution(document.uri);
 
     const messageHandler = webviewPanel.webview.onDidReceiveMessage(
       async (message) => {
         if (message.command === 'decrypt') {
-          await this.handleDecrypt(webviewPanel, document, getFileData(), filePath, message.password);
+          await unlock(signal =>
+            this.handleDecrypt(webviewPanel, getFileData(), filePath, signal, message.password, selectedKeyfile)
+          );
+        } else if (message.command === 'cancel') {
+          pendingUnlock?.abort();
+        } else if (message.command === 'pickKeyfile') {
+          const keyfile = await keyfileService.pick();
+          if (keyfile) {
+            selectedKeyfile = keyfile;
+            webviewPanel.webview.postMessage({ command: 'keyfileSelected', name: path.basename(keyfile) });
+          }
+        } else if (message.command === 'decryptWithIdentity') {
+          const fileData = getFileData();
+          if (!encryptionService.isMeldFileData(fileData)) {
+            await this.handleDecryptWithIdentity(webviewPanel, fileData, filePath);
+          }
         }
       },
       null,
@@ -52,57 +106,202 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
     );
 
     webviewPanel.onDidDispose(() => {
+      pendingUnlock?.abort();
       messageHandler.dispose();
     });
+
+    void unlock(signal => this.unlockWithKnownPassword(webviewPanel, fileData, filePath, signal));
+  }
+
+  /**
+   * Try the password already known for the file (cached, or in the unlocked
+   * keyring, matched by key ID) as soon as the editor opens
+   * The password prompt stays if there is none or it does not open the file
+   */
+  private async unlockWithKnownPassword(
+    webviewPanel: vscode.WebviewPanel,
+    fileData: EncryptedFileData | MeldEncryptedFileData,
+    filePath: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    const meld = encryptionService.isMeldFileData(fileData);
+    if (!meld && fileData.slots && !fileData.slots.some(slot => slot.type === 'password')) {
+      return;
+    }
+    const known = passwordService.get(filePath, meld ? [] : encryptionService.getFileKeyIds(fileData));
+    if (!known.password) {
+      return;
+    }
+
+    // Without a readable keyfile there is nothing to try: picking one is up to the prompt
+    let keyfile: KeyfileSelection | undefined;
+    if (!meld && fileData.keyfile) {
+      if (!known.keyfile) {
+        return;
+      }
+      try {
+        keyfile = { keyfile: known.keyfile, keyfileHash: await keyfileService.hash(known.keyfile) };
+      } catch {
+        return;
+      }
+    }
+
+    webviewPanel.webview.postMessage({ command: 'unlocking', active: true });
+    const opened = await this.openFileData(fileData, known.password, keyfile?.keyfileHash, signal);
+    if (opened === null || opened === 'cancelled') {
+      // An unlock started from the prompt replaced this one and shows its own progress
+      if (!signal.aborted) {
+        webviewPanel.webview.postMessage({ command: 'unlocking', active: false });
+      }
+      return;
+    }
+
+    await this.openInNativeEditor(filePath, opened.content, {
+      password: known.password,
+      hint: known.hint || fileData.hint || '',
+      keyfile,
+      dataKey: opened.dataKey,
+      format: meld ? { name: 'mdenc' } : undefined
+    });
   }
 
+  /**
+   * Unlock with the password entered in the webview
+   */
   private async handleDecrypt(
     webviewPanel: vscode.WebviewPanel,
-    document: vscode.TextDocument,
-    fileData: EncryptedFileData,
+    fileData: EncryptedFileData | MeldEncryptedFileData,
     filePath: string,
-    passwordFromWebview?: string
+    signal: AbortSignal,
+    password: string,
+    keyfileFromWebview?: string
   ): Promise<void> {
-    let password = passwordFromWebview;
-    let hint = fileData.hint ?? '';
+    const hint = fileData.hint ?? '';
+    const keyfileRequired = !encryptionService.isMeldFileData(fileData) && !!fileData.keyfile;
 
-    if (!password) {
-      const cached = passwordService.get(filePath);
-      password = cached.password;
-      hint = cached.hint || hint;
+    const keyfile = keyfileRequired ? await keyfileService.resolve(filePath, keyfileFromWebview) : undefined;
+    if (keyfile === null) {
+      vscode.window.showInformationMessage('Decryption cancelled');
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, hint, false);
+      return;
     }
 
-    let decryptedContent = encryptionService.decryptFileData(fileData, password);
+    const opened = await this.openFileData(fileData, password, keyfile?.keyfileHash, signal);
+    if (opened === 'cancelled') {
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, hint, false, keyfile?.keyfile);
+      return;
+    }
+    if (opened === null) {
+      vscode.window.showErrorMessage(this.getFailureMessage(keyfileRequired));
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, hint, true, keyfile?.keyfile);
+      return;
+    }
 
-    if (decryptedContent === null && !passwordFromWebview) {
-      const result = await PasswordPrompt.showForDecryption({ hint, defaultPassword: password });
-      if (!result) {
-        vscode.window.showInformationMessage('Decryption cancelled');
-        return;
-      }
-      password = result.password;
-      decryptedContent = encryptionService.decryptFileData(fileData, password);
+    // Remembered, so this file and others with the same password open without the prompt
+    const config = vscode.workspace.getConfiguration('encrypt');
+    if (config.get<boolean>('rememberPassword', true)) {
+      passwordService.put({ password, hint, keyfile: keyfile?.keyfile }, filePath);
+    }
 
-      if (decryptedContent === null) {
-        vscode.window.showErrorMessage('Decryption failed. Wrong password?');
-        webviewPanel.webview.html = this.getPasswordPromptHtml(hint, true);
-        return;
+    // Entered passwords are added to the unlocked keyring (known ones are skipped)
+    if (!encryptionService.isMeldFileData(fileData)) {
+      await keyringService.add(password, vscode.workspace.asRelativePath(filePath));
+    }
+
+    await this.openInNativeEditor(filePath, opened.content, {
+      password,
+      hint,
+      keyfile,
+      dataKey: opened.dataKey,
+      format: encryptionService.isMeldFileData(fileData) ? { name: 'mdenc' } : undefined
+    });
+  }
+
+  /**
+   * Decrypt file data in the background
+   * Returns 'cancelled' if the webview cancelled the unlock or the file
+   * cannot be opened, e.g. its header was modified (reported to the user here)
+   */
+  private async openFileData(
+    fileData: EncryptedFileData | MeldEncryptedFileData,
+    password: string,
+    keyfileHash: Buffer | undefined,
+    signal: AbortSignal
+  ): Promise<{ content: string; dataKey?: Buffer } | null | 'cancelled'> {
+    try {
+      if (encryptionService.isMeldFileData(fileData)) {
+        const content = await encryptionService.decryptMeldFileData(fileData, password, signal);
+        return content === null ? null : { content };
       }
+      return await encryptionService.openFileData(fileData, password, keyfileHash, signal);
+    } catch (error) {
+      if (error instanceof KdfCancelledError) {
+        return 'cancelled';
+      }
+      // Modified headers, unsupported versions, unknown ciphers or KDFs
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      return 'cancelled';
+    }
+  }
 
-      const config = vscode.workspace.getConfiguration('encrypt');
-      if (config.get<boolean>('rememberPassword', true)) {
-        passwordService.put({ password, hint }, filePath);
+  /**
+   * Unlock a file shared with recipients using the local X25519 private key
+   */
+  private async handleDecryptWithIdentity(
+    webviewPanel: vscode.WebviewPanel,
+    fileData: EncryptedFileData,
+    filePath: string
+  ): Promise<void> {
+    let privateKey: string | undefined;
+    try {
+      privateKey = await recipientService.readIdentity();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot read private key: ${error instanceof Error ? error.message : error}`);
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, fileData.hint, false);
+      return;
+    }
+    if (!privateKey) {
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, fileData.hint, false);
+      const choice = await vscode.window.showWarningMessage(
+        'No private key configured. Set "encrypt.identityFile" or generate a key pair.',
+        'Generate Key Pair',
+        'Open Settings'
+      );
+      if (choice === 'Generate Key Pair') {
+        await vscode.commands.executeCommand('encrypt.generateKeyPair');
+      } else if (choice === 'Open Settings') {
+        await vscode.commands.executeCommand('workbench.action.openSettings', 'encrypt.identityFile');
       }
+      return;
     }
 
-    if (decryptedContent === null) {
-      vscode.window.showErrorMessage('Decryption failed. Wrong password?');
-      webviewPanel.webview.html = this.getPasswordPromptHtml(hint, true);
+    let opened: { content: string; dataKey: Buffer } | null;
+    try {
+      opened = encryptionService.openFileDataWithIdentity(fileData, privateKey);
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, fileData.hint, false);
       return;
     }
+    if (opened === null) {
+      vscode.window.showErrorMessage('Your private key is not a recipient of this file.');
+      webviewPanel.webview.html = this.getPasswordPromptHtml(fileData, fileData.hint, false);
+      return;
+    }
+
+    await this.openInNativeEditor(filePath, opened.content, {
+      password: '',
+      hint: fileData.hint ?? '',
+      dataKey: opened.dataKey
+    });
+  }
 
-    // Store in virtual file system and open native editor
-    this.encryptedFS.createVirtualFile(filePath, password, hint, decryptedContent);
+  /**
+   * Store decrypted content in the virtual file system, open it in the
+   * native editor and close the unlock tab
+   */
+  private async openInNativeEditor(filePath: string, content: string, credentials: FileCredentials): Promise<void> {
+    this.encryptedFS.createVirtualFile(filePath, content, credentials);
 
     const encfsUri = this.encryptedFS.getVirtualUri(filePath);
     const doc = await vscode.workspace.openTextDocument(encfsUri);
@@ -126,7 +325,44 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
     }, 150);
   }
 
-  private getPasswordPromptHtml(hint?: string, showError: boolean = false): string {
+  /**
+   * Offer to resolve sync conflicts when the file is a conflicted copy or has some
+   */
+  private async offerConflictResolution(uri: vscode.Uri): Promise<void> {
+    const original = conflictService.getOriginalPath(uri.fsPath);
+    const copies = original ? [] : await conflictService.findConflictCopies(uri.fsPath);
+    if (!original && copies.length === 0) {
+      return;
+    }
+    const message = original
+      ? `${path.basename(uri.fsPath)} is a conflicted copy of ${path.basename(original)}.`
+      : `${path.basename(uri.fsPath)} has ${copies.length} conflicted cop${copies.length === 1 ? 'y' : 'ies'} from file sync.`;
+    if (await vscode.window.showWarningMessage(message, 'Resolve Conflict') === 'Resolve Conflict') {
+      await vscode.commands.executeCommand('encrypt.resolveConflict', uri);
+    }
+  }
+
+  private getFailureMessage(keyfileRequired: boolean): string {
+    return keyfileRequired
+      ? 'Decryption failed. Wrong password or keyfile?'
+      : 'Decryption failed. Wrong password?';
+  }
+
+  private getPasswordPromptHtml(
+    fileData: Pick<EncryptedFileData, 'hint' | 'keyfile' | 'slots'>,
+    hint?: string,
+    showError: boolean = false,
+    keyfile?: string
+  ): string {
+    const keyfileRequired = !!fileData.keyfile;
+    const slots = fileData.slots ?? [];
+    const recipientUnlock = slots.some(slot => slot.type === 'x25519');
+    const passwordUnlock = slots.length === 0 || slots.some(slot => slot.type === 'password');
+
+    const keyfileLabel = keyfile
+      ? `Keyfile: ${this.escapeHtml(path.basename(keyfile))}`
+      : keyfileRequired ? 'This file requires a keyfile' : 'No keyfile';
+
     const hintHtml = hint ? `
       <div class="hint">
         <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -144,7 +380,7 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
           <line x1="15" y1="9" x2="9" y2="15"></line>
           <line x1="9" y1="9" x2="15" y2="15"></line>
         </svg>
-        <span>Incorrect password. Please try again.</span>
+        <span>${keyfileRequired ? 'Incorrect password or keyfile.' : 'Incorrect password.'} Please try again.</span>
       </div>` : '';
 
     return `<!DOCTYPE html>
@@ -215,6 +451,8 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
     .btn-primary { background: var(--accent); color: white; }
     .btn-primary:hover { background: var(--accent-hover); transform: translateY(-1px); box-shadow: 0 4px 12px rgba(10, 132, 255, 0.4); }
     .btn-primary:active { transform: translateY(0); }
+    .btn-secondary { margin-top: 12px; background: var(--hint-bg); color: var(--text-primary); }
+    .btn-secondary:hover { background: var(--glass-bg); }
     .hint {
       display: flex; align-items: center; justify-content: center; gap: 8px;
       padding: 12px 16px; margin-bottom: 16px; background: var(--hint-bg); border-radius: 10px;
@@ -230,7 +468,21 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
       display: flex; align-items: center; justify-content: center; gap: 6px;
     }
     .footer svg { width: 14px; height: 14px; }
+    .keyfile {
+      display: flex; align-items: center; justify-content: center; gap: 8px; margin-bottom: 16px;
+      font-size: 13px; color: var(--text-secondary);
+    }
+    .keyfile button {
+      background: none; border: none; padding: 0; font: inherit; color: var(--accent); cursor: pointer;
+    }
+    .keyfile button:hover { color: var(--accent-hover); text-decoration: underline; }
     .btn.loading { pointer-events: none; opacity: 0.8; }
+    .cancel {
+      display: none; margin: 12px auto 0; background: none; border: none; padding: 0;
+      font: inherit; font-size: 13px; color: var(--text-secondary); cursor: pointer;
+    }
+    .cancel:hover { color: var(--text-primary); text-decoration: underline; }
+    .btn.loading + .cancel { display: block; }
     .spinner {
       width: 18px; height: 18px; border: 2px solid rgba(255,255,255,0.3); border-top-color: white;
       border-radius: 50%; animation: spin 0.8s linear infinite; display: none;
@@ -251,11 +503,11 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
       </svg>
     </div>
     <h1>Unlock File</h1>
-    <p class="subtitle">Enter password to decrypt this file</p>
+    <p class="subtitle">${passwordUnlock ? 'Enter password to decrypt this file' : 'This file is shared with recipients'}</p>
     <div class="card" id="card">
       ${errorHtml}
       ${hintHtml}
-      <div class="input-wrapper">
+      ${passwordUnlock ? `<div class="input-wrapper">
         <input type="password" id="password" placeholder="Password" autofocus>
         <div class="input-icon">
           <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -263,10 +515,19 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
           </svg>
         </div>
       </div>
+      <div class="keyfile">
+        <span id="keyfileName">${keyfileLabel}</span>
+        <button id="keyfileBtn" onclick="pickKeyfile()">Choose keyfile…</button>
+      </div>
       <button class="btn btn-primary" id="unlockBtn" onclick="decrypt()">
         <span class="spinner"></span>
         <span class="btn-text">Unlock</span>
       </button>
+      <button class="cancel" id="cancelBtn" onclick="cancelUnlock()">Cancel</button>` : ''}
+      ${recipientUnlock ? `<button class="btn ${passwordUnlock ? 'btn-secondary' : 'btn-primary'}" id="identityBtn" onclick="decryptWithIdentity()">
+        <span class="spinner"></span>
+        <span class="btn-text">Unlock with private key</span>
+      </button>` : ''}
     </div>
     <div class="footer">
       <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
@@ -280,13 +541,71 @@ export class EncryptedFileEditorProvider implements vscode.CustomTextEditorProvi
     const passwordInput = document.getElementById('password');
     const unlockBtn = document.getElementById('unlockBtn');
     const card = document.getElementById('card');
-    passwordInput.addEventListener('keypress', (e) => { if (e.key === 'Enter') decrypt(); });
+    const keyfileName = document.getElementById('keyfileName');
+    const identityBtn = document.getElementById('identityBtn');
+    if (passwordInput) { passwordInput.addEventListener('keypress', (e) => { if (e.key === 'Enter') decrypt(); }); }
+    window.addEventListener('message', (e) => {
+      if (e.data.command === 'keyfileSelected') { keyfileName.textContent = 'Keyfile: ' + e.data.name; }
+      if (e.data.command === 'unlocking' && unlockBtn) { unlockBtn.classList.toggle('loading', e.data.active); }
+    });
+    function pickKeyfile() { vscode.postMessage({ command: 'pickKeyfile' }); }
+    function decryptWithIdentity() {
+      identityBtn.classList.add('loading');
+      vscode.postMessage({ command: 'decryptWithIdentity' });
+    }
     function decrypt() {
       const password = passwordInput.value;
       if (!password) { card.classList.add('shake'); passwordInput.focus(); setTimeout(() => card.classList.remove('shake'), 400); return; }
       unlockBtn.classList.add('loading');
       vscode.postMessage({ command: 'decrypt', password });
     }
+    function cancelUnlock() {
+      unlockBtn.classList.remove('loading');
+      vscode.postMessage({ command: 'cancel' });
+    }
+  </script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Page for files that are not valid encrypted JSON
+   */
+  private getUnreadableHtml(conflicted: boolean): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${conflicted ? 'Merge Conflict' : 'Unreadable File'}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'SF Pro Display', 'SF Pro Text', 'Helvetica Neue', sans-serif;
+      background: var(--vscode-editor-background); color: var(--vscode-foreground);
+      min-height: 100vh; display: flex; justify-content: center; align-items: center;
+      padding: 24px; -webkit-font-smoothing: antialiased;
+    }
+    .container { width: 100%; max-width: 360px; text-align: center; }
+    h1 { font-size: 24px; font-weight: 600; margin-bottom: 8px; letter-spacing: -0.5px; }
+    p { font-size: 14px; opacity: 0.7; margin-bottom: 32px; }
+    .btn {
+      width: 100%; height: 48px; font-size: 16px; font-weight: 500; font-family: inherit;
+      border: none; border-radius: 12px; cursor: pointer; background: #0A84FF; color: white;
+    }
+    .btn:hover { background: #409CFF; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    ${conflicted ? `<h1>Merge Conflict</h1>
+    <p>Git left conflict markers in this encrypted file. Decrypt both sides to merge them.</p>
+    <button class="btn" onclick="resolveConflict()">Resolve Conflict</button>` : `<h1>Unreadable File</h1>
+    <p>This file is not a valid encrypted file. It may be damaged or only partly synced.</p>`}
+  </div>
+  <script>
+    const vscode = acquireVsCodeApi();
+    function resolveConflict() { vscode.postMessage({ command: 'resolveConflict' }); }
   </script>
 </body>
 </html>`;
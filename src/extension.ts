@@ -1,6 +1,11 @@
 import * as vscode from 'vscode';
-import { encryptionService } from './services/EncryptionService';
+import { encryptionService } from './core/EncryptionService';
 import { passwordService } from './services/PasswordService';
+import { compressionService } from './core/CompressionService';
+import { passwordStrengthService } from './services/PasswordStrengthService';
+import { autoLockService } from './services/AutoLockService';
+import { historyService } from './services/HistoryService';
+import { keyringService } from './services/KeyringService';
 import { PasswordPrompt } from './ui/PasswordPrompt';
 import {
   createEncryptedFile,
@@ -9,19 +14,41 @@ import {
   changePassword as changePasswordForFile,
   lockAndCloseAll,
   clearPasswordCache,
-  isEncryptedFile
+  upgradeEncryptedFiles,
+  isEncryptedFile,
+  isEncryptionAllowed
 } from './commands/fileCommands';
 import { encryptSelection, decryptSelection } from './commands/selectionCommands';
+import { addKeySlot, listKeySlots, revokeKeySlot } from './commands/keySlotCommands';
+import { generateKeyPair, copyPublicKey, shareWithRecipients } from './commands/recipientCommands';
+import { exportAsAge, openAgeFile } from './commands/ageCommands';
+import { resolveConflict } from './commands/conflictCommands';
+import { showHistory } from './commands/historyCommands';
+import { forgetStoredPasswords, listStoredPasswords } from './commands/passwordCommands';
+import { unlockKeyring, lockKeyring } from './commands/keyringCommands';
+import { installCommitGuard, commitWithGuard, configureEncryptedDiffs } from './commands/gitCommands';
 import { EncryptedFileEditorProvider } from './editors/EncryptedFileEditor';
+import { DecryptPanel } from './ui/DecryptPanel';
 import { EncryptedFileSystem } from './providers/EncryptedFileSystem';
-import type { EncryptedFileData } from './types';
+import { PolicyDiagnostics } from './providers/PolicyDiagnostics';
+import type { CompressionAlgorithm, EncryptedFileData, KdfParams } from './types';
 
 export function activate(context: vscode.ExtensionContext): void {
+  passwordService.setSecretStorage(context.secrets);
+  keyringService.setDefaultDirectory(context.globalStorageUri.fsPath);
   updatePasswordServiceConfig();
+  updateEncryptionServiceConfig();
+  updateAutoLockConfig();
+  updateKeyringConfig();
+  updateHistoryConfig();
 
   const configWatcher = vscode.workspace.onDidChangeConfiguration(e => {
     if (e.affectsConfiguration('encrypt')) {
       updatePasswordServiceConfig();
+      updateEncryptionServiceConfig();
+      updateAutoLockConfig();
+      updateKeyringConfig();
+      updateHistoryConfig();
     }
   });
 
@@ -70,7 +97,7 @@ export function activate(context: vscode.ExtensionContext): void {
   );
   const encryptFileCmd = vscode.commands.registerCommand('encrypt.encryptFile', encryptCurrentFile);
   const decryptFileCmd = vscode.commands.registerCommand(
-    'encrypt.decryptFile', (uri?: vscode.Uri) => decryptCurrentFile(uri)
+    'encrypt.decryptFile', (uri?: vscode.Uri) => decryptCurrentFile(uri, encryptedFS)
   );
 
   // changePassword: supports both file:// (.md.enc) and encfs:// native editor
@@ -89,20 +116,37 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   const lockAllCmd = vscode.commands.registerCommand('encrypt.lockAndCloseAll', async () => {
-    const encfsTabs = vscode.window.tabGroups.all
-      .flatMap(g => g.tabs)
-      .filter(tab => {
+    await closeDecryptedTabs(encryptedFS);
+    await lockAndCloseAll();
+    keyringService.lock();
+  });
+
+  const panicLockCmd = vscode.commands.registerCommand('encrypt.panicLock', async () => {
+    DecryptPanel.activePanel?.dispose();
+    const closed = await closeDecryptedTabs(encryptedFS) + await lockAndCloseAll({ notify: false });
+    passwordService.clear();
+    keyringService.lock();
+    await vscode.env.clipboard.writeText('');
+    vscode.window.showInformationMessage(`Panic lock: closed ${closed} encrypted file(s), cleared passwords and clipboard`);
+  });
+
+  // ── Auto-lock on idle or window blur ───────────────────────
+  autoLockService.start(async (reason) => {
+    const unlocked = passwordService.size > 0 || keyringService.isUnlocked ||
+      vscode.workspace.textDocuments.some(doc => doc.uri.scheme === EncryptedFileSystem.scheme) ||
+      vscode.window.tabGroups.all.some(group => group.tabs.some(tab => {
         const input = tab.input;
-        if (input && typeof input === 'object' && 'uri' in input) {
-          return (input as { uri: vscode.Uri }).uri.scheme === EncryptedFileSystem.scheme;
-        }
-        return false;
-      });
-    for (const tab of encfsTabs) {
-      await vscode.window.tabGroups.close(tab);
+        return input instanceof vscode.TabInputCustom && isEncryptedFile(input.uri.fsPath);
+      }));
+    if (!unlocked) {
+      return;
     }
-    encryptedFS.clearAll();
-    await lockAndCloseAll();
+    const closed = await closeDecryptedTabs(encryptedFS) + await lockAndCloseAll({ notify: false });
+    passwordService.clear();
+    keyringService.lock();
+    vscode.window.showInformationMessage(reason === 'idle'
+      ? `Locked ${closed} encrypted file(s) after a period without activity`
+      : `Locked ${closed} encrypted file(s) while VS Code was in the background`);
   });
 
   const clearCacheCmd = vscode.commands.registerCommand('encrypt.clearPasswordCache', async () => {
@@ -110,10 +154,60 @@ export function activate(context: vscode.ExtensionContext): void {
     encryptedFS.clearAll();
   });
 
+  const forgetStoredCmd = vscode.commands.registerCommand('encrypt.forgetStoredPasswords', async () => {
+    await forgetStoredPasswords();
+  });
+
+  const listStoredCmd = vscode.commands.registerCommand('encrypt.listStoredPasswords', async () => {
+    await listStoredPasswords();
+  });
+
+  // ── Keyring commands ───────────────────────────────────────
+  const unlockKeyringCmd = vscode.commands.registerCommand('encrypt.unlockKeyring', unlockKeyring);
+  const lockKeyringCmd = vscode.commands.registerCommand('encrypt.lockKeyring', lockKeyring);
+
+  const upgradeCmd = vscode.commands.registerCommand(
+    'encrypt.upgradeEncryptedFiles', (uri?: vscode.Uri) => upgradeEncryptedFiles(uri)
+  );
+  const resolveConflictCmd = vscode.commands.registerCommand(
+    'encrypt.resolveConflict', (uri?: vscode.Uri) => resolveConflict(encryptedFS, uri)
+  );
+  const showHistoryCmd = vscode.commands.registerCommand(
+    'encrypt.showHistory', (uri?: vscode.Uri) => showHistory(encryptedFS, uri)
+  );
+
+  // ── Key slot commands ──────────────────────────────────────
+  const addSlotCmd = vscode.commands.registerCommand('encrypt.addKeySlot', () => addKeySlot(encryptedFS));
+  const listSlotsCmd = vscode.commands.registerCommand('encrypt.listKeySlots', () => listKeySlots(encryptedFS));
+  const revokeSlotCmd = vscode.commands.registerCommand('encrypt.revokeKeySlot', () => revokeKeySlot(encryptedFS));
+
+  // ── Recipient commands ─────────────────────────────────────
+  const generateKeyPairCmd = vscode.commands.registerCommand('encrypt.generateKeyPair', generateKeyPair);
+  const copyPublicKeyCmd = vscode.commands.registerCommand('encrypt.copyPublicKey', copyPublicKey);
+  const shareCmd = vscode.commands.registerCommand(
+    'encrypt.shareWithRecipients', () => shareWithRecipients(encryptedFS)
+  );
+
+  // ── age commands ───────────────────────────────────────────
+  const exportAgeCmd = vscode.commands.registerCommand('encrypt.exportAsAge', () => exportAsAge(encryptedFS));
+  const openAgeCmd = vscode.commands.registerCommand(
+    'encrypt.openAgeFile', (uri?: vscode.Uri) => openAgeFile(encryptedFS, uri)
+  );
+
   // ── Selection commands ─────────────────────────────────────
   const encryptSelCmd = vscode.commands.registerCommand('encrypt.encryptSelection', encryptSelection);
   const decryptSelCmd = vscode.commands.registerCommand('encrypt.decryptSelection', decryptSelection);
 
+  // ── Workspace policy ───────────────────────────────────────
+  const policyDiagnostics = new PolicyDiagnostics();
+  const installGuardCmd = vscode.commands.registerCommand(
+    'encrypt.installCommitGuard', (uri?: vscode.Uri) => installCommitGuard(context.extensionPath, uri)
+  );
+  const commitGuardCmd = vscode.commands.registerCommand('encrypt.commitWithGuard', commitWithGuard);
+  const encryptedDiffsCmd = vscode.commands.registerCommand(
+    'encrypt.configureEncryptedDiffs', (uri?: vscode.Uri) => configureEncryptedDiffs(context.extensionPath, uri)
+  );
+
   // ── Status bar ─────────────────────────────────────────────
   const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
   statusBarItem.command = 'encrypt.lockAndCloseAll';
@@ -137,9 +231,30 @@ export function activate(context: vscode.ExtensionContext): void {
     decryptFileCmd,
     changePwdCmd,
     lockAllCmd,
+    panicLockCmd,
+    autoLockService,
     clearCacheCmd,
+    forgetStoredCmd,
+    listStoredCmd,
+    unlockKeyringCmd,
+    lockKeyringCmd,
+    upgradeCmd,
+    resolveConflictCmd,
+    showHistoryCmd,
+    addSlotCmd,
+    listSlotsCmd,
+    revokeSlotCmd,
+    generateKeyPairCmd,
+    copyPublicKeyCmd,
+    shareCmd,
+    exportAgeCmd,
+    openAgeCmd,
     encryptSelCmd,
     decryptSelCmd,
+    policyDiagnostics,
+    installGuardCmd,
+    commitGuardCmd,
+    encryptedDiffsCmd,
     statusBarItem,
     activeEditorChange
   );
@@ -158,6 +273,26 @@ async function changePasswordForEncfs(
     return;
   }
 
+  // Foreign formats (age, openssl, OpenPGP, Meld Encrypt) have no key slots: set the
+  // new passphrase and save again; only Meld Encrypt notes keep a hint
+  if (meta.format) {
+    const allowHint = meta.format.name === 'mdenc';
+    const passwordResult = await PasswordPrompt.showForEncryption({
+      confirmPassword: true,
+      allowHint,
+      defaultHint: allowHint ? meta.hint : undefined
+    });
+    if (!passwordResult.confirmed) { return; }
+    const hint = allowHint ? passwordResult.hint : '';
+    encryptedFS.updateMeta(meta.realPath, { password: passwordResult.password, hint });
+    await vscode.workspace.fs.writeFile(encfsUri, encryptedFS.readFile(encfsUri));
+    if (vscode.workspace.getConfiguration('encrypt').get<boolean>('rememberPassword', true)) {
+      passwordService.put({ password: passwordResult.password, hint }, meta.realPath);
+    }
+    vscode.window.showInformationMessage('Passphrase changed successfully');
+    return;
+  }
+
   const realUri = vscode.Uri.file(meta.realPath);
   let fileData: EncryptedFileData;
   try {
@@ -168,44 +303,154 @@ async function changePasswordForEncfs(
     return;
   }
 
+  if (!await isEncryptionAllowed(meta.realPath)) {
+    return;
+  }
+
   const passwordResult = await PasswordPrompt.showForChangePassword({
     currentHint: fileData.hint
   });
   if (!passwordResult) { return; }
 
-  const decryptedContent = encryptionService.decryptFileData(fileData, passwordResult.current.password);
-  if (decryptedContent === null) {
+  // The keyfile stays the same, only the password changes
+  let newFileData: EncryptedFileData | null;
+  try {
+    newFileData = await encryptionService.changeFileDataPassword(
+      fileData,
+      passwordResult.current.password,
+      passwordResult.new.password,
+      passwordResult.new.hint,
+      meta.keyfile?.keyfileHash
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  if (newFileData === null) {
     vscode.window.showErrorMessage('Current password is incorrect');
     return;
   }
 
-  const newFileData = encryptionService.encryptFileContent(
-    decryptedContent,
-    passwordResult.new.password,
-    passwordResult.new.hint
-  );
   const encoder = new TextEncoder();
   await vscode.workspace.fs.writeFile(realUri, encoder.encode(JSON.stringify(newFileData, null, 2)));
 
-  encryptedFS.updateMeta(meta.realPath, passwordResult.new.password, passwordResult.new.hint);
+  encryptedFS.updateMeta(meta.realPath, { password: passwordResult.new.password, hint: passwordResult.new.hint });
 
   const config = vscode.workspace.getConfiguration('encrypt');
   if (config.get<boolean>('rememberPassword', true)) {
-    passwordService.put(passwordResult.new, meta.realPath);
+    passwordService.put({ ...passwordResult.new, keyfile: meta.keyfile?.keyfile }, meta.realPath);
   }
 
   vscode.window.showInformationMessage('Password changed successfully.');
 }
 
+/**
+ * Close the tabs of decrypted (encfs://) documents, including diffs, and drop their plaintext
+ * Pending edits are saved first, as closing a dirty tab would prompt
+ * Returns the number of closed tabs
+ */
+async function closeDecryptedTabs(encryptedFS: EncryptedFileSystem): Promise<number> {
+  const dirty = vscode.workspace.textDocuments.filter(doc =>
+    doc.uri.scheme === EncryptedFileSystem.scheme && doc.isDirty
+  );
+  await Promise.all(dirty.map(doc => doc.save()));
+
+  const encfsTabs = vscode.window.tabGroups.all
+    .flatMap(g => g.tabs)
+    .filter(tab => {
+      const input = tab.input;
+      // Diffs of revisions and sync conflicts show encfs documents on either side
+      if (input instanceof vscode.TabInputTextDiff) {
+        return input.original.scheme === EncryptedFileSystem.scheme ||
+          input.modified.scheme === EncryptedFileSystem.scheme;
+      }
+      if (input && typeof input === 'object' && 'uri' in input) {
+        return (input as { uri: vscode.Uri }).uri.scheme === EncryptedFileSystem.scheme;
+      }
+      return false;
+    });
+  for (const tab of encfsTabs) {
+    await vscode.window.tabGroups.close(tab);
+  }
+  encryptedFS.clearAll();
+  return encfsTabs.length;
+}
+
+function updateAutoLockConfig(): void {
+  const config = vscode.workspace.getConfiguration('encrypt');
+  autoLockService.configure({
+    idleMinutes: config.get<number>('autoLock.idleMinutes', 0),
+    blurMinutes: config.get<number>('autoLock.blurMinutes', 0)
+  });
+}
+
+function updateKeyringConfig(): void {
+  const config = vscode.workspace.getConfiguration('encrypt');
+  keyringService.configure(config.get<string>('keyringFile', ''));
+}
+
+function updateHistoryConfig(): void {
+  const config = vscode.workspace.getConfiguration('encrypt');
+  historyService.configure({
+    enabled: config.get<boolean>('history.enabled', false),
+    maxRevisions: config.get<number>('history.maxRevisions', 20),
+    maxAgeDays: config.get<number>('history.maxAgeDays', 30),
+    intervalMinutes: config.get<number>('history.intervalMinutes', 10)
+  });
+}
+
 function updatePasswordServiceConfig(): void {
   const config = vscode.workspace.getConfiguration('encrypt');
   passwordService.init(
     config.get<boolean>('rememberPassword', true),
     config.get<number>('rememberPasswordTimeout', 30),
-    config.get<'workspace' | 'folder' | 'file'>('rememberPasswordLevel', 'workspace')
+    config.get<'workspace' | 'folder' | 'file'>('rememberPasswordLevel', 'workspace'),
+    config.get<'session' | 'secretStorage'>('rememberPasswordStorage', 'session') === 'secretStorage',
+    config.get<number>('rememberPasswordFolderDepth', 0)
   );
 }
 
+function updateEncryptionServiceConfig(): void {
+  const config = vscode.workspace.getConfiguration('encrypt');
+  const kdfName = config.get<'pbkdf2' | 'scrypt'>('kdf', 'pbkdf2');
+  const kdf: KdfParams = kdfName === 'scrypt'
+    ? {
+      name: 'scrypt',
+      n: config.get<number>('scryptCost', 131072),
+      r: config.get<number>('scryptBlockSize', 8),
+      p: config.get<number>('scryptParallelization', 1)
+    }
+    : {
+      name: 'pbkdf2',
+      digest: 'sha512',
+      iterations: config.get<number>('pbkdf2Iterations', 210000)
+    };
+
+  // Each group on its own, so one invalid setting does not leave the others at their defaults
+  try {
+    encryptionService.configure({ cipher: config.get<string>('cipher', 'aes-256-gcm'), kdf });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid encryption settings: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    compressionService.configure({
+      algorithm: config.get<CompressionAlgorithm | 'none'>('compression', 'none'),
+      threshold: config.get<number>('compressionThreshold', 1024)
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid compression settings: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    passwordStrengthService.configure({
+      minScore: config.get<number>('passwordPolicy.minScore', 2),
+      minLength: config.get<number>('passwordPolicy.minLength', 8),
+      enforcement: config.get<'block' | 'warn'>('passwordPolicy.enforcement', 'warn')
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid password policy settings: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
 function updateStatusBar(statusBarItem: vscode.StatusBarItem): void {
   const activeEditor = vscode.window.activeTextEditor;
   if (activeEditor && (
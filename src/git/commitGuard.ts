@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile, spawn } from 'child_process';
+
+/**
+ * Commit guard: checks the files staged in a git repository for plaintext
+ * that should be encrypted. It runs from the pre-commit hook, which gets a
+ * copy of the compiled script, so it may only use Node built-ins.
+ */
+
+/**
+ * Workspace policy file, relative to the folder it applies to (see PolicyService)
+ */
+const POLICY_FILE = '.vscode/encrypt-policy.json';
+
+/**
+ * Marks the lines the installer adds to a pre-commit hook
+ */
+export const HOOK_MARKER = '# encrypt-commit-guard';
+
+/**
+ * Name of the script copy next to the hook
+ */
+export const HOOK_SCRIPT_NAME = 'encrypt-commit-guard.js';
+
+/**
+ * Extensions of files that count as encrypted
+ */
+const ENCRYPTED_FILE_PATTERN = /\.(enc|mdenc|age|gpg)$/i;
+
+/**
+ * In-place markers: `🔐hint:data🔐`, `🔐data🔐` and Meld Encrypt's
+ * `🔐β 💡hint💡data 🔐`. The data must be long enough to tell markers from
+ * prose that merely uses the emoji.
+ */
+const MARKER_PATTERN = /🔐(?:[αβ] (?:💡[^💡\n]*💡)?|[^:🔐\n]*:)?([^\s🔐]{16,}) ?🔐/gu;
+
+/**
+ * Smallest payload of a marker: IV and auth tag of an empty ciphertext
+ */
+const MIN_MARKER_BYTES = 28;
+
+/**
+ * `requireEncrypted` rules of one policy file, whose globs match paths
+ * relative to `folder` (relative to the repository root, '' for the root)
+ */
+interface FolderPolicy {
+  folder: string;
+  rules: { glob: string; pattern: RegExp }[];
+}
+
+/**
+ * Staged file rejected by the guard
+ */
+export interface GuardViolation {
+  path: string;
+  message: string;
+}
+
+/**
+ * Run git in a directory
+ * Throws with git's error output if it fails
+ */
+export function runGit(cwd: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, encoding: 'buffer', maxBuffer: 256 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.toString('utf8').trim() || error.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+/**
+ * Convert a workspace glob (`*`, `**`, `?`, `{a,b}`, `[...]`) to a regular
+ * expression matching paths relative to the folder of the policy file
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether text is an encrypted .md.enc file (EncryptedFileData JSON)
+ */
+export function isEncryptedFileData(text: string): boolean {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return false;
+  }
+  if (!data || typeof data !== 'object' || typeof data.version !== 'string') {
+    return false;
+  }
+  const fields = ['ciphertext', 'iv', 'authTag'];
+  if (!Array.isArray(data.slots)) {
+    fields.push('salt');
+  }
+  return fields.every(field => typeof data[field] === 'string' && isBase64(data[field] as string));
+}
+
+/**
+ * Malformed in-place markers in text, one message per marker
+ * In Markdown, code blocks and spans are skipped: they document the marker
+ * format rather than hold encrypted text.
+ */
+export function findMalformedMarkers(text: string, markdown = false): string[] {
+  if (markdown) {
+    text = text
+      .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, block => block.replace(/[^\n]/g, ' '))
+      .replace(/`[^`\n]+`/g, span => ' '.repeat(span.length));
+  }
+  const messages: string[] = [];
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    const data = match[1];
+    if (!isBase64(data) || Buffer.from(data, 'base64').length < MIN_MARKER_BYTES) {
+      const line = text.slice(0, match.index).split('\n').length;
+      messages.push(`malformed 🔐 marker on line ${line} (invalid base64)`);
+    }
+  }
+  return messages;
+}
+
+function isBase64(value: string): boolean {
+  return value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+}
+
+/**
+ * Globs of the policy file in a folder (undefined without one)
+ * Throws if the policy file is malformed
+ */
+async function readPolicyGlobs(folder: string): Promise<string[] | undefined> {
+  let json: string;
+  try {
+    json = await fs.promises.readFile(path.join(folder, POLICY_FILE), 'utf8');
+  } catch {
+    return undefined;
+  }
+  const globs: unknown = JSON.parse(json)?.requireEncrypted ?? [];
+  if (!Array.isArray(globs) || globs.some(glob => typeof glob !== 'string')) {
+    throw new Error('"requireEncrypted" must be an array of globs');
+  }
+  return globs;
+}
+
+/**
+ * Policy that applies to a file: that of the nearest folder with a policy
+ * file, as the extension reads the policy of each workspace folder
+ * Folders are read once per check; a malformed policy file is reported
+ * (once) and applies no rules.
+ */
+async function findPolicy(
+  repoRoot: string,
+  file: string,
+  policies: Map<string, Promise<FolderPolicy | undefined>>,
+  violations: GuardViolation[]
+): Promise<FolderPolicy | undefined> {
+  for (let dir = path.posix.dirname(file); ; dir = path.posix.dirname(dir)) {
+    const folder = dir === '.' ? '' : dir;
+    let policy = policies.get(folder);
+    if (!policy) {
+      policy = readPolicyGlobs(path.join(repoRoot, folder)).then(
+        globs => globs && { folder, rules: globs.map(glob => ({ glob, pattern: globToRegExp(glob) })) },
+        error => {
+          violations.push({
+            path: path.posix.join(folder, POLICY_FILE),
+            message: `invalid encryption policy: ${error instanceof Error ? error.message : error}`
+          });
+          return { folder, rules: [] };
+        }
+      );
+      policies.set(folder, policy);
+    }
+    const found = await policy;
+    if (found || !folder) {
+      return found;
+    }
+  }
+}
+
+/**
+ * Read the staged (index) content of files with one `git cat-file --batch`
+ */
+function readStaged(repoRoot: string, files: string[]): Promise<Map<string, Buffer>> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['cat-file', '--batch'], { cwd: repoRoot });
+    const chunks: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code !== 0) {
+        reject(new Error(`git cat-file exited with code ${code}`));
+        return;
+      }
+      const output = Buffer.concat(chunks);
+      const contents = new Map<string, Buffer>();
+      let offset = 0;
+      for (const file of files) {
+        const newline = output.indexOf(0x0a, offset);
+        if (newline === -1) {
+          break;
+        }
+        const header = output.subarray(offset, newline).toString('utf8').split(' ');
+        offset = newline + 1;
+        if (header.length === 3 && header[1] === 'blob') {
+          const size = Number(header[2]);
+          contents.set(file, output.subarray(offset, offset + size));
+          offset += size + 1;
+        } else if (header.length === 3) {
+          offset += Number(header[2]) + 1;
+        }
+      }
+      resolve(contents);
+    });
+    child.stdin.end(files.map(file => `:${file}\n`).join(''));
+  });
+}
+
+/**
+ * Check the staged files of a repository
+ * Rejects plaintext matching the `requireEncrypted` globs of the nearest
+ * policy file, .md.enc
+ * files that are not encrypted, plaintext next to an encrypted copy and
+ * malformed in-place markers
+ */
+export async function checkStagedFiles(repoRoot: string): Promise<GuardViolation[]> {
+  const staged = (await runGit(repoRoot, ['diff', '--cached', '--name-only', '--diff-filter=ACMR', '-z']))
+    .toString('utf8')
+    .split('\0')
+    .filter(file => file && !file.includes('\n'));
+  if (staged.length === 0) {
+    return [];
+  }
+
+  const violations: GuardViolation[] = [];
+  const policies = new Map<string, Promise<FolderPolicy | undefined>>();
+
+  const tracked = new Set(
+    (await runGit(repoRoot, ['ls-files', '-z'])).toString('utf8').split('\0').filter(Boolean)
+  );
+  const contents = await readStaged(repoRoot, staged);
+
+  for (const file of staged) {
+    const content = contents.get(file);
+    if (file.endsWith('.md.enc')) {
+      if (content && !isEncryptedFileData(content.toString('utf8'))) {
+        violations.push({ path: file, message: 'not a valid encrypted file (plaintext saved as .md.enc?)' });
+      }
+      continue;
+    }
+    if (ENCRYPTED_FILE_PATTERN.test(file)) {
+      continue;
+    }
+
+    const policy = await findPolicy(repoRoot, file, policies, violations);
+    if (policy) {
+      const relative = policy.folder ? file.slice(policy.folder.length + 1) : file;
+      const rule = policy.rules.find(({ pattern }) => pattern.test(relative));
+      if (rule) {
+        const policyFile = path.posix.join(policy.folder, POLICY_FILE);
+        violations.push({ path: file, message: `matches "${rule.glob}" in ${policyFile} but is not encrypted` });
+      }
+    }
+    const sibling = `${file}.enc`;
+    if (tracked.has(sibling) || fs.existsSync(path.join(repoRoot, sibling))) {
+      violations.push({ path: file, message: `plaintext copy of ${path.posix.basename(sibling)}` });
+    }
+    // Markers only appear in text; binary files contain NUL bytes early on
+    if (content && !content.subarray(0, 8000).includes(0) && content.includes('🔐')) {
+      for (const message of findMalformedMarkers(content.toString('utf8'), /\.(md|markdown)$/i.test(file))) {
+        violations.push({ path: file, message });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Hook entry point: exits with 1 and lists the violations if any
+ */
+async function main(): Promise<void> {
+  const repoRoot = (await runGit(process.cwd(), ['rev-parse', '--show-toplevel'])).toString('utf8').trim();
+  const violations = await checkStagedFiles(repoRoot);
+  if (violations.length === 0) {
+    return;
+  }
+  process.stderr.write(
+    'Commit rejected by the encryption commit guard:\n' +
+    violations.map(v => `  ${v.path}: ${v.message}\n`).join('') +
+    'Encrypt or unstage these files, or bypass the guard with "git commit --no-verify".\n'
+  );
+  process.exitCode = 1;
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    process.stderr.write(`encrypt-commit-guard: ${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import type { EncryptedFileData } from '../types';
+
+/**
+ * Git textconv driver for .md.enc files: prints the decrypted Markdown so
+ * `git diff` and `git log -p` show the real changes instead of new salts,
+ * IVs and ciphertext. The Configure Encrypted Diffs command sets it up for a
+ * repository; the plaintext only ever goes to the local terminal.
+ *
+ * The password comes from ENCRYPT_PASSWORD, a keyfile from ENCRYPT_KEYFILE.
+ * There is no terminal prompt: git runs the driver once per blob (twice per
+ * file in `git diff`, once per revision in `git log -p`) and its pager
+ * competes for the terminal. Files that cannot be decrypted are shown as
+ * they are.
+ */
+
+export const PASSWORD_VARIABLE = 'ENCRYPT_PASSWORD';
+export const KEYFILE_VARIABLE = 'ENCRYPT_KEYFILE';
+
+/**
+ * Name of the diff driver in git config and .gitattributes
+ */
+export const DIFF_DRIVER = 'mdenc';
+
+/**
+ * Decrypt one .md.enc file for git
+ * Returns the text to print and, if it could not be decrypted, why
+ */
+async function convert(filePath: string): Promise<{ text: string; warning?: string }> {
+  const raw = await fs.promises.readFile(filePath, 'utf8');
+  let fileData: EncryptedFileData;
+  try {
+    fileData = JSON.parse(raw);
+  } catch {
+    return { text: raw };
+  }
+
+  const keyfile = process.env[KEYFILE_VARIABLE];
+  const keyfileHash = keyfile ? encryptionService.hashKeyfile(await fs.promises.readFile(keyfile)) : undefined;
+
+  const password = process.env[PASSWORD_VARIABLE];
+  if (password === undefined) {
+    return { text: raw, warning: `no password; set ${PASSWORD_VARIABLE} to show decrypted diffs` };
+  }
+
+  try {
+    const content = await encryptionService.decryptFileData(fileData, password, keyfileHash);
+    return content === null ? { text: raw, warning: 'wrong password' } : { text: content };
+  } catch (error) {
+    return { text: raw, warning: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function main(): Promise<void> {
+  const filePath = process.argv[2];
+  if (!filePath) {
+    process.stderr.write('Usage: textconv.js <file.md.enc>\n');
+    process.exitCode = 2;
+    return;
+  }
+  const { text, warning } = await convert(filePath);
+  if (warning) {
+    process.stderr.write(`encrypt textconv: ${path.basename(filePath)}: ${warning}\n`);
+  }
+  process.stdout.write(text);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    process.stderr.write(`encrypt textconv: ${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = 1;
+  });
+}
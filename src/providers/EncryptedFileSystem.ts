@@ -1,16 +1,50 @@
 import * as vscode from 'vscode';
-import { encryptionService } from '../services/EncryptionService';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { recipientService } from '../services/RecipientService';
+import { ageService } from '../services/AgeService';
+import { openSslService } from '../services/OpenSslService';
+import { openPgpService } from '../services/OpenPgpService';
+import { historyService } from '../services/HistoryService';
+import { policyService } from '../services/PolicyService';
+import { runGit } from '../git/commitGuard';
+import type { KeyfileSelection } from '../services/KeyfileService';
+import type { EncryptedFileData, ExternalFormat, FileRevision } from '../types';
 
 interface VirtualFile {
   content: Uint8Array;
   ctime: number;
   mtime: number;
+  readonly?: boolean;
 }
 
-interface FileMeta {
-  realPath: string;
+/**
+ * Secrets needed to re-encrypt a virtual file on save
+ */
+export interface FileCredentials {
   password: string;
   hint: string;
+  keyfile?: KeyfileSelection;
+  /** Data key of key-slot files; content is re-encrypted with it so slots stay untouched */
+  dataKey?: Buffer;
+  /** Set for files opened from a foreign format (age, openssl, OpenPGP); saves write that format again */
+  format?: ExternalFormat;
+  /**
+   * Set while a conflict is resolved: the version the result is saved over
+   * (the file on disk may hold git conflict markers) and the sync conflict
+   * copies that are removed once the result is saved
+   */
+  conflict?: { fileData?: EncryptedFileData; copies: string[] };
+}
+
+interface FileMeta extends FileCredentials {
+  realPath: string;
+  /** Content as last read from or written to disk; becomes a revision when replaced */
+  savedContent?: string;
+  /** Earlier revisions, newest first, once decrypted; null if the credentials do not open them */
+  revisions?: FileRevision[] | null;
+  /** When a save last recorded a revision */
+  lastRevision?: number;
 }
 
 /**
@@ -23,6 +57,7 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
 
   private files = new Map<string, VirtualFile>();
   private metadata = new Map<string, FileMeta>();
+  private pendingWrites = new Map<string, Promise<void>>();
 
   private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
   readonly onDidChangeFile = this._onDidChangeFile.event;
@@ -41,6 +76,7 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
         ctime: file.ctime,
         mtime: file.mtime,
         size: file.content.byteLength,
+        permissions: file.readonly ? vscode.FilePermission.Readonly : undefined,
       };
     }
 
@@ -92,6 +128,9 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
   ): Promise<void> {
     const now = Date.now();
     const existing = this.files.get(uri.path);
+    if (existing?.readonly) {
+      throw vscode.FileSystemError.NoPermissions(uri);
+    }
     this.files.set(uri.path, {
       content,
       ctime: existing?.ctime ?? now,
@@ -105,23 +144,227 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
       return;
     }
 
+    // Key derivation is async now, so saves may overlap: write them in order
     const plaintext = new TextDecoder().decode(content);
+    const previous = this.pendingWrites.get(uri.path) ?? Promise.resolve();
+    const write = previous.catch(() => undefined).then(() => this.encryptToDisk(meta, plaintext));
+    this.pendingWrites.set(uri.path, write);
+    try {
+      await write;
+    } finally {
+      if (this.pendingWrites.get(uri.path) === write) {
+        this.pendingWrites.delete(uri.path);
+      }
+    }
+  }
+
+  /**
+   * Encrypt plaintext in the foreign format the file was opened from
+   * (age, openssl, OpenPGP or an Obsidian Meld Encrypt note)
+   */
+  private async encryptExternal(format: ExternalFormat, plaintext: Buffer, meta: FileMeta): Promise<Buffer> {
+    switch (format.name) {
+      case 'age':
+        return ageService.encrypt(plaintext, meta.password, format.workFactor);
+      case 'openssl':
+        return openSslService.encrypt(plaintext, meta.password, { iterations: format.iterations, base64: format.base64 });
+      case 'openpgp':
+        return openPgpService.encrypt(plaintext, meta.password, {
+          armor: format.armor,
+          filename: path.basename(meta.realPath).replace(/\.(gpg|pgp|asc)$/, '')
+        });
+      case 'mdenc': {
+        const fileData = await encryptionService.encryptMeldFileData(plaintext.toString('utf8'), meta.password, meta.hint);
+        return Buffer.from(JSON.stringify(fileData, null, 2), 'utf8');
+      }
+    }
+  }
+
+  /**
+   * Encrypt plaintext with the file's credentials and write it to the real .md.enc file
+   */
+  private async encryptToDisk(meta: FileMeta, plaintext: string): Promise<void> {
     const realUri = vscode.Uri.file(meta.realPath);
 
+    if (meta.format) {
+      const encrypted = await this.encryptExternal(meta.format, Buffer.from(plaintext, 'utf8'), meta);
+      await vscode.workspace.fs.writeFile(realUri, encrypted);
+      vscode.window.setStatusBarMessage(
+        `$(lock) Encrypted and saved to ${path.basename(meta.realPath)} — plaintext never written to disk`,
+        3000
+      );
+      await this.finishConflict(meta);
+      return;
+    }
+
+    // Files with a data key are saved without deriving a key from the password
+    if (!meta.dataKey) {
+      await this.checkEncryptionPolicy(meta);
+    }
+
+    let onDisk: EncryptedFileData | undefined;
     try {
-      const diskBytes = await vscode.workspace.fs.readFile(realUri);
-      const existingData = JSON.parse(new TextDecoder().decode(diskBytes));
+      let existingData: EncryptedFileData = meta.conflict?.fileData
+        ?? JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(realUri)));
+      onDisk = existingData;
       const hint = meta.hint ?? existingData.hint;
-      const encrypted = encryptionService.encryptFileContent(plaintext, meta.password, hint);
+      const historyKey = meta.dataKey;
+      if (meta.dataKey && encryptionService.hasRecipients(existingData)) {
+        // Follow the recipients file so added and removed teammates take effect on save
+        const recipients = await recipientService.getRecipients(meta.realPath).catch(error => {
+          vscode.window.showWarningMessage(
+            `Recipients not updated: ${error instanceof Error ? error.message : error}`
+          );
+          return [];
+        });
+        if (recipients.length > 0) {
+          const rewrapped = encryptionService.rewrapForRecipients(existingData, meta.dataKey, recipients);
+          existingData = rewrapped.fileData;
+          meta.dataKey = rewrapped.dataKey;
+        }
+      }
+      const history = await this.updateHistory(meta, existingData.history, plaintext, historyKey);
+      // Key-slot files keep their slots (which may have changed since unlock)
+      const encrypted = meta.dataKey && existingData.slots
+        ? encryptionService.encryptWithDataKey(plaintext, meta.dataKey, { ...existingData, history })
+        : { ...await encryptionService.encryptFileContent(plaintext, meta.password, hint, meta.keyfile?.keyfileHash), history };
       const encoder = new TextEncoder();
       await vscode.workspace.fs.writeFile(realUri, encoder.encode(JSON.stringify(encrypted, null, 2)));
-    } catch {
-      const encrypted = encryptionService.encryptFileContent(plaintext, meta.password, meta.hint);
+    } catch (error) {
+      // Files unlocked with a private key have no password to fall back to, and a
+      // password-only file would drop the other key slots, recipients and history
+      if (!meta.password || meta.dataKey || onDisk?.slots || onDisk?.history) {
+        vscode.window.showErrorMessage(
+          `Failed to save ${meta.realPath}: ${error instanceof Error ? error.message : error}`
+        );
+        return;
+      }
+      const encrypted = await encryptionService.encryptFileContent(plaintext, meta.password, meta.hint, meta.keyfile?.keyfileHash);
       const encoder = new TextEncoder();
       await vscode.workspace.fs.writeFile(realUri, encoder.encode(JSON.stringify(encrypted, null, 2)));
     }
 
+    meta.savedContent = plaintext;
     vscode.window.setStatusBarMessage('$(lock) Encrypted and saved to .md.enc — plaintext never written to disk', 3000);
+    await this.finishConflict(meta);
+  }
+
+  /**
+   * Check the configured KDF against the workspace policy before a save
+   * derives a new key from the password
+   * Throws, so the save fails and the document stays dirty
+   */
+  private async checkEncryptionPolicy(meta: FileMeta): Promise<void> {
+    const violation = await policyService.getEncryptionViolation(meta.realPath, encryptionService.defaultParams.kdf);
+    if (violation) {
+      throw vscode.FileSystemError.NoPermissions(violation);
+    }
+  }
+
+  /**
+   * Record the content a save replaces as a revision, when history is on and
+   * the last revision is old enough
+   * Returns the history to store: `stored` as it is unless a revision was
+   * added or it is not under the current data key (`storedKey` was rotated)
+   */
+  private async updateHistory(
+    meta: FileMeta,
+    stored: EncryptedFileData | undefined,
+    plaintext: string,
+    storedKey: Buffer | undefined
+  ): Promise<EncryptedFileData | undefined> {
+    const previous = meta.savedContent;
+    const record = previous !== undefined && previous !== plaintext && historyService.isDue(meta.lastRevision);
+    // Also moves history still under a password (files converted to key slots before) to the data key
+    const rekey = !!stored && (storedKey !== meta.dataKey || (!!meta.dataKey && !stored.slots));
+    if (!record && !rekey) {
+      return stored;
+    }
+
+    try {
+      let revisions = stored ? await this.readRevisions(meta, stored, storedKey) : [];
+      if (!revisions) {
+        // Written under credentials this file was not unlocked with, e.g. an earlier password
+        return stored;
+      }
+      if (record) {
+        const saved = (await vscode.workspace.fs.stat(vscode.Uri.file(meta.realPath))).mtime;
+        revisions = historyService.add(revisions, { saved: new Date(saved).toISOString(), content: previous });
+        meta.lastRevision = Date.now();
+      }
+      const history = await encryptionService.encryptHistory(
+        revisions,
+        meta.password,
+        meta.keyfile?.keyfileHash,
+        meta.dataKey
+      );
+      meta.revisions = revisions;
+      return history;
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `Revision history of ${path.basename(meta.realPath)} not updated: ${error instanceof Error ? error.message : error}`
+      );
+      return stored;
+    }
+  }
+
+  /**
+   * Decrypt stored revisions with a file's credentials, or return the ones decrypted before
+   * Returns null if the credentials do not open them
+   */
+  private async readRevisions(
+    meta: FileMeta,
+    stored: EncryptedFileData,
+    dataKey = meta.dataKey
+  ): Promise<FileRevision[] | null> {
+    if (meta.revisions !== undefined) {
+      return meta.revisions;
+    }
+    meta.revisions = await encryptionService.decryptHistory(stored, meta.password, meta.keyfile?.keyfileHash, dataKey);
+    return meta.revisions;
+  }
+
+  /**
+   * After the first save of a conflict resolution: move the sync conflict
+   * copies to the trash and offer to mark a git conflict resolved
+   */
+  private async finishConflict(meta: FileMeta): Promise<void> {
+    const conflict = meta.conflict;
+    if (!conflict) {
+      return;
+    }
+    meta.conflict = undefined;
+
+    for (const copy of conflict.copies) {
+      try {
+        await vscode.workspace.fs.delete(vscode.Uri.file(copy), { useTrash: true });
+      } catch (error) {
+        vscode.window.showWarningMessage(
+          `Cannot remove ${path.basename(copy)}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    if (conflict.copies.length > 0) {
+      vscode.window.showInformationMessage(
+        `Conflict resolved. ${conflict.copies.length} conflicted cop${conflict.copies.length === 1 ? 'y was' : 'ies were'} moved to the trash.`
+      );
+      return;
+    }
+    // Not awaited: later saves of the file wait for this one
+    void vscode.window.showInformationMessage(
+      `Conflict in ${path.basename(meta.realPath)} resolved. Stage it to mark the merge conflict resolved.`,
+      'Stage'
+    ).then(async choice => {
+      if (choice !== 'Stage') {
+        return;
+      }
+      try {
+        await runGit(path.dirname(meta.realPath), ['add', '--', path.basename(meta.realPath)]);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Cannot stage the file: ${error instanceof Error ? error.message : error}`);
+      }
+    });
   }
 
   delete(uri: vscode.Uri): void {
@@ -137,13 +380,14 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
   // --- Public helper methods ---
 
   /**
-   * Build the encfs:// URI for a given real .md.enc file path.
-   * Strips the trailing .enc and inserts a [Memory] marker before .md
-   * so the tab title makes it clear the content lives only in memory.
+   * Build the encfs:// URI for a given real .md.enc (or .age, .gpg, …) file path.
+   * Strips the encryption extension (a Meld Encrypt `.mdenc` note becomes `.md`) and inserts a [Memory] marker before the
+   * extension so the tab title makes it clear the content lives only in memory.
    */
   getVirtualUri(realPath: string): vscode.Uri {
-    const withoutEnc = realPath.replace(/\.enc$/, '');
-    const virtualPath = withoutEnc.replace(/\.md$/, ' [Memory].md');
+    const withoutEnc = realPath.replace(/\.(enc|age|aes|gpg|pgp|asc)$/, '').replace(/\.mdenc$/, '.md');
+    const ext = path.extname(withoutEnc);
+    const virtualPath = `${withoutEnc.slice(0, withoutEnc.length - ext.length)} [Memory]${ext}`;
     return vscode.Uri.from({ scheme: EncryptedFileSystem.scheme, path: virtualPath });
   }
 
@@ -152,9 +396,8 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
    */
   createVirtualFile(
     realPath: string,
-    password: string,
-    hint: string,
-    content: string
+    content: string,
+    credentials: FileCredentials
   ): vscode.Uri {
     const uri = this.getVirtualUri(realPath);
     const now = Date.now();
@@ -163,29 +406,60 @@ export class EncryptedFileSystem implements vscode.FileSystemProvider {
       ctime: now,
       mtime: now,
     });
-    this.metadata.set(uri.path, { realPath, password, hint });
+    this.metadata.set(uri.path, { ...credentials, realPath, savedContent: content });
     return uri;
   }
 
+  /**
+   * Store a decrypted binary file for read-only preview and return the URI.
+   * No credentials are kept, so edits stay in memory and never reach disk;
+   * with `readonly` the editor does not allow edits at all.
+   */
+  createPreviewFile(realPath: string, content: Uint8Array, readonly = false): vscode.Uri {
+    const uri = this.getVirtualUri(realPath);
+    const now = Date.now();
+    this.files.set(uri.path, { content, ctime: now, mtime: now, readonly });
+    this.metadata.delete(uri.path);
+    return uri;
+  }
+
+  /**
+   * Earlier revisions of an open file, newest first
+   * Returns null if its credentials do not open the stored history
+   * Throws if the file cannot be read or the history was modified
+   */
+  async getRevisions(realPath: string): Promise<FileRevision[] | null> {
+    const meta = this.metadata.get(this.getVirtualUri(realPath).path);
+    if (!meta || meta.format) {
+      return [];
+    }
+    const fileData: EncryptedFileData = meta.conflict?.fileData
+      ?? JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(realPath))));
+    if (!fileData.history) {
+      return [];
+    }
+    const revisions = await this.readRevisions(meta, fileData.history);
+    return revisions && historyService.prune(revisions);
+  }
+
   hasFile(realPath: string): boolean {
     const uri = this.getVirtualUri(realPath);
     return this.files.has(uri.path);
   }
 
   /**
-   * Update the password / hint for an already-open virtual file.
+   * Update the credentials for an already-open virtual file.
    */
-  updateMeta(realPath: string, password: string, hint: string): void {
+  updateMeta(realPath: string, credentials: Partial<FileCredentials>): void {
     const uri = this.getVirtualUri(realPath);
     const existing = this.metadata.get(uri.path);
     if (existing) {
-      existing.password = password;
-      existing.hint = hint;
+      Object.assign(existing, credentials);
     }
   }
 
   /**
-   * Retrieve metadata for a virtual URI (real path, password, hint).
+   * Retrieve metadata for a virtual URI (real path and credentials).
    */
   getMeta(uri: vscode.Uri): FileMeta | undefined {
     return this.metadata.get(uri.path);
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { policyService, POLICY_FILE } from '../services/PolicyService';
+import type { EncryptPolicy, EncryptedFileData } from '../types';
+
+/**
+ * Extensions of files that count as encrypted for `requireEncrypted`
+ */
+const ENCRYPTED_FILE_PATTERN = /\.(enc|mdenc|age|gpg)$/i;
+
+/**
+ * Files searched per glob, so a broad glob cannot stall the scan
+ */
+const MAX_RESULTS = 2000;
+
+/**
+ * Reports workspace policy violations in the Problems panel: plaintext files
+ * matching `requireEncrypted`, .md.enc files below `minimumKdf` and malformed
+ * policy files. Rescans when files are created, deleted or renamed.
+ */
+export class PolicyDiagnostics implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection('encrypt-policy');
+  private readonly disposables: vscode.Disposable[] = [];
+  private timer?: NodeJS.Timeout;
+  /** Scans run one at a time */
+  private scanning: Promise<void> = Promise.resolve();
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+    const onFileChanged = (uri: vscode.Uri): void => {
+      if (uri.fsPath.endsWith('.md.enc') || uri.fsPath.endsWith(path.normalize(POLICY_FILE))) {
+        this.schedule();
+      }
+    };
+    this.disposables.push(
+      this.collection,
+      watcher,
+      watcher.onDidCreate(() => this.schedule()),
+      watcher.onDidDelete(() => this.schedule()),
+      watcher.onDidChange(onFileChanged),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.schedule())
+    );
+    this.schedule();
+  }
+
+  /**
+   * Rescan shortly, batching bursts of file events
+   */
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.scanning = this.scanning.then(() => this.refresh()).catch(error => {
+        vscode.window.showWarningMessage(
+          `Cannot check the encryption policy: ${error instanceof Error ? error.message : error}`
+        );
+      });
+    }, 1000);
+  }
+
+  /**
+   * Check every workspace folder against its policy
+   */
+  async refresh(): Promise<void> {
+    const problems = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+    const report = (uri: vscode.Uri, diagnostic: vscode.Diagnostic): void => {
+      diagnostic.source = 'encrypt-policy';
+      const entry = problems.get(uri.toString()) ?? { uri, diagnostics: [] };
+      entry.diagnostics.push(diagnostic);
+      problems.set(uri.toString(), entry);
+    };
+    const firstLine = new vscode.Range(0, 0, 0, 0);
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      let policy: EncryptPolicy | undefined;
+      try {
+        policy = await policyService.getPolicy(folder);
+      } catch (error) {
+        report(policyService.getPolicyFileUri(folder), new vscode.Diagnostic(
+          firstLine,
+          `Invalid encryption policy: ${error instanceof Error ? error.message : error}`,
+          vscode.DiagnosticSeverity.Error
+        ));
+        continue;
+      }
+      if (!policy) {
+        continue;
+      }
+
+      for (const glob of policy.requireEncrypted) {
+        const files = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, glob), '**/node_modules/**', MAX_RESULTS
+        );
+        for (const uri of files.filter(file => !ENCRYPTED_FILE_PATTERN.test(file.fsPath))) {
+          report(uri, new vscode.Diagnostic(
+            firstLine,
+            `Plaintext file matches "${glob}" in the workspace encryption policy and must be encrypted`,
+            vscode.DiagnosticSeverity.Error
+          ));
+        }
+      }
+
+      if (policy.minimumKdf.length > 0) {
+        const files = await vscode.workspace.findFiles(
+          new vscode.RelativePattern(folder, '**/*.md.enc'), '**/node_modules/**'
+        );
+        for (const uri of files) {
+          for (const message of await this.checkKdfs(uri, policy)) {
+            report(uri, new vscode.Diagnostic(firstLine, message, vscode.DiagnosticSeverity.Warning));
+          }
+        }
+      }
+    }
+
+    this.collection.clear();
+    for (const { uri, diagnostics } of problems.values()) {
+      this.collection.set(uri, diagnostics);
+    }
+  }
+
+  /**
+   * KDF violations of one .md.enc file (unreadable files are skipped)
+   */
+  private async checkKdfs(uri: vscode.Uri, policy: EncryptPolicy): Promise<string[]> {
+    let fileData: EncryptedFileData;
+    try {
+      fileData = JSON.parse(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+    } catch {
+      return [];
+    }
+    const violations = new Set<string>();
+    for (const kdf of encryptionService.getFileKdfs(fileData)) {
+      try {
+        const violation = policyService.checkKdf(policy, kdf);
+        if (violation) {
+          violations.add(`${violation}. Re-encrypt it with stronger settings, e.g. with Upgrade Encrypted Files`);
+        }
+      } catch {
+        violations.add(`Unknown key derivation "${kdf.name}" is not allowed by the workspace policy`);
+      }
+    }
+    return [...violations];
+  }
+
+  dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.disposables.forEach(d => d.dispose());
+  }
+}
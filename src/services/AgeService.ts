@@ -0,0 +1,342 @@
+import * as crypto from 'crypto';
+import { cryptoRegistry } from '../core/CryptoRegistry';
+import { keyDerivationService } from '../core/KeyDerivationService';
+import { HeaderModifiedError } from '../core/EncryptionService';
+
+/**
+ * First line of every binary age file
+ */
+const AGE_VERSION_LINE = 'age-encryption.org/v1';
+const SCRYPT_LABEL = 'age-encryption.org/v1/scrypt';
+
+const ARMOR_BEGIN = '-----BEGIN AGE ENCRYPTED FILE-----';
+const ARMOR_END = '-----END AGE ENCRYPTED FILE-----';
+
+const FILE_KEY_LENGTH = 16;
+const PAYLOAD_NONCE_LENGTH = 16;
+const CHUNK_SIZE = 64 * 1024;
+/** Stanza bodies are wrapped at 64 base64 characters */
+const STANZA_LINE_LENGTH = 64;
+
+/**
+ * scrypt work factor (log2 N) written by default, the same as the age CLI
+ */
+export const DEFAULT_AGE_WORK_FACTOR = 18;
+
+/**
+ * Highest work factor accepted when reading: 2^20 needs 1 GiB of memory,
+ * anything above would exhaust the extension host
+ */
+export const MAX_AGE_WORK_FACTOR = 20;
+
+/**
+ * Raised for files that are not valid age files or use unsupported recipients
+ */
+export class AgeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgeFormatError';
+  }
+}
+
+/**
+ * Recipient stanza of an age header: `-> type args…` followed by a base64 body
+ */
+interface AgeStanza {
+  type: string;
+  args: string[];
+  body: Buffer;
+}
+
+/**
+ * Parsed age header
+ */
+interface AgeHeader {
+  stanzas: AgeStanza[];
+  mac: Buffer;
+  /** Header bytes covered by the MAC (through "---") */
+  macInput: Buffer;
+  /** Offset of the binary payload */
+  payloadStart: number;
+}
+
+/**
+ * Unpadded base64 as used by age (RFC 4648 without "=")
+ */
+function encodeRaw(bytes: Buffer): string {
+  return bytes.toString('base64').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64, rejecting non-canonical encodings as age does
+ */
+function decodeRaw(text: string): Buffer {
+  const bytes = Buffer.from(text, 'base64');
+  if (!/^[A-Za-z0-9+/]*$/.test(text) || encodeRaw(bytes) !== text) {
+    throw new AgeFormatError('Invalid base64 in age header');
+  }
+  return bytes;
+}
+
+/**
+ * Nonce of a payload chunk: 11-byte big-endian counter || last-chunk flag
+ */
+function chunkNonce(counter: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(12);
+  nonce.writeUIntBE(counter, 5, 6);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+function headerMacKey(fileKey: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', fileKey, Buffer.alloc(0), 'header', 32));
+}
+
+function payloadKey(fileKey: Buffer, nonce: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', fileKey, nonce, 'payload', 32));
+}
+
+/**
+ * age Service: reads and writes age v1 files (https://age-encryption.org/v1)
+ * with a scrypt passphrase stanza, interoperable with the age CLI.
+ *
+ * Layout: text header (version line, recipient stanzas, "--- " + HMAC) followed
+ * by a 16-byte nonce and the payload in 64 KiB ChaCha20-Poly1305 chunks.
+ */
+export class AgeService {
+  /**
+   * Check whether bytes look like an age file (binary or ASCII-armored)
+   */
+  isAgeFile(bytes: Uint8Array): boolean {
+    const start = Buffer.from(bytes.subarray(0, ARMOR_BEGIN.length + 64)).toString('utf8').trimStart();
+    return start.startsWith(`${AGE_VERSION_LINE}\n`) || start.startsWith(ARMOR_BEGIN);
+  }
+
+  /**
+   * Encrypt bytes to a binary age file with a passphrase
+   */
+  async encrypt(plaintext: Buffer, passphrase: string, workFactor = DEFAULT_AGE_WORK_FACTOR): Promise<Buffer> {
+    const cipher = cryptoRegistry.getCipher('chacha20-poly1305');
+    const fileKey = crypto.randomBytes(FILE_KEY_LENGTH);
+
+    const salt = crypto.randomBytes(16);
+    const wrapKey = await this.deriveWrapKey(passphrase, salt, workFactor);
+    const wrapped = cipher.encrypt(wrapKey, Buffer.alloc(12), fileKey);
+    const body = encodeRaw(Buffer.concat([wrapped.ciphertext, wrapped.authTag]));
+
+    const macInput = Buffer.from([
+      AGE_VERSION_LINE,
+      `-> scrypt ${encodeRaw(salt)} ${workFactor}`,
+      ...this.wrapBody(body),
+      '---'
+    ].join('\n'), 'utf8');
+    const mac = crypto.createHmac('sha256', headerMacKey(fileKey)).update(macInput).digest();
+
+    const nonce = crypto.randomBytes(PAYLOAD_NONCE_LENGTH);
+    const key = payloadKey(fileKey, nonce);
+    const chunks: Buffer[] = [];
+    let offset = 0;
+    let counter = 0;
+    do {
+      const end = Math.min(offset + CHUNK_SIZE, plaintext.length);
+      const last = end === plaintext.length;
+      const sealed = cipher.encrypt(key, chunkNonce(counter++, last), plaintext.subarray(offset, end));
+      chunks.push(sealed.ciphertext, sealed.authTag);
+      offset = end;
+    } while (offset < plaintext.length);
+
+    return Buffer.concat([
+      macInput,
+      Buffer.from(` ${encodeRaw(mac)}\n`, 'utf8'),
+      nonce,
+      ...chunks
+    ]);
+  }
+
+  /**
+   * Decrypt an age file (binary or ASCII-armored) with a passphrase
+   * Returns null if the passphrase is wrong
+   * Throws AgeFormatError for malformed files or files without a passphrase stanza,
+   * and HeaderModifiedError if the header or payload was changed
+   */
+  async decrypt(bytes: Buffer, passphrase: string, signal?: AbortSignal): Promise<Buffer | null> {
+    const data = this.dearmor(bytes);
+    const header = this.parseHeader(data);
+
+    const scrypt = header.stanzas.filter(stanza => stanza.type === 'scrypt');
+    if (scrypt.length === 0) {
+      throw new AgeFormatError('This age file is encrypted to public keys; only passphrase-encrypted files are supported');
+    }
+    // The spec forbids mixing a passphrase with other recipients
+    if (header.stanzas.length !== 1) {
+      throw new AgeFormatError('Invalid age file: a passphrase stanza must be the only recipient');
+    }
+
+    const stanza = scrypt[0];
+    const [saltText, workFactorText] = stanza.args;
+    if (stanza.args.length !== 2 || !/^[1-9][0-9]?$/.test(workFactorText ?? '')) {
+      throw new AgeFormatError('Invalid scrypt stanza in age header');
+    }
+    const salt = decodeRaw(saltText);
+    const workFactor = Number(workFactorText);
+    if (salt.length !== 16 || stanza.body.length !== FILE_KEY_LENGTH + 16) {
+      throw new AgeFormatError('Invalid scrypt stanza in age header');
+    }
+    if (workFactor > MAX_AGE_WORK_FACTOR) {
+      throw new AgeFormatError(`scrypt work factor ${workFactor} is above the supported maximum of ${MAX_AGE_WORK_FACTOR}`);
+    }
+
+    const cipher = cryptoRegistry.getCipher('chacha20-poly1305');
+    const wrapKey = await this.deriveWrapKey(passphrase, salt, workFactor, signal);
+    let fileKey: Buffer;
+    try {
+      fileKey = cipher.decrypt(
+        wrapKey,
+        Buffer.alloc(12),
+        stanza.body.subarray(0, FILE_KEY_LENGTH),
+        stanza.body.subarray(FILE_KEY_LENGTH)
+      );
+    } catch {
+      return null;
+    }
+
+    const mac = crypto.createHmac('sha256', headerMacKey(fileKey)).update(header.macInput).digest();
+    if (mac.length !== header.mac.length || !crypto.timingSafeEqual(mac, header.mac)) {
+      throw new HeaderModifiedError();
+    }
+
+    return this.decryptPayload(data.subarray(header.payloadStart), fileKey);
+  }
+
+  /**
+   * Split a stanza body into lines; a body that fills its last line gets an empty final line
+   */
+  private wrapBody(body: string): string[] {
+    const lines: string[] = [];
+    for (let i = 0; i <= body.length; i += STANZA_LINE_LENGTH) {
+      lines.push(body.slice(i, i + STANZA_LINE_LENGTH));
+    }
+    return lines;
+  }
+
+  private deriveWrapKey(passphrase: string, salt: Buffer, workFactor: number, signal?: AbortSignal): Promise<Buffer> {
+    return keyDerivationService.derive(
+      passphrase,
+      Buffer.concat([Buffer.from(SCRYPT_LABEL, 'utf8'), salt]),
+      { name: 'scrypt', n: 2 ** workFactor, r: 8, p: 1 },
+      32,
+      signal
+    );
+  }
+
+  /**
+   * Strip the ASCII armor, if any
+   */
+  private dearmor(bytes: Buffer): Buffer {
+    const text = bytes.subarray(0, ARMOR_BEGIN.length + 64).toString('utf8').trimStart();
+    if (!text.startsWith(ARMOR_BEGIN)) {
+      return bytes;
+    }
+    const lines = bytes.toString('utf8').trim().split(/\r?\n/);
+    if (lines[0] !== ARMOR_BEGIN || lines[lines.length - 1] !== ARMOR_END) {
+      throw new AgeFormatError('Invalid armored age file');
+    }
+    const base64 = lines.slice(1, -1).join('');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+      throw new AgeFormatError('Invalid armored age file');
+    }
+    return Buffer.from(base64, 'base64');
+  }
+
+  private parseHeader(data: Buffer): AgeHeader {
+    const stanzas: AgeStanza[] = [];
+    let offset = 0;
+    const readLine = (): string => {
+      const end = data.indexOf(0x0a, offset);
+      if (end === -1) {
+        throw new AgeFormatError('Invalid age file: truncated header');
+      }
+      const line = data.subarray(offset, end).toString('utf8');
+      offset = end + 1;
+      return line;
+    };
+
+    if (readLine() !== AGE_VERSION_LINE) {
+      throw new AgeFormatError('Not an age v1 file');
+    }
+
+    let line = readLine();
+    while (line.startsWith('-> ')) {
+      const [type, ...args] = line.slice(3).split(' ');
+      if (!type || args.some(arg => arg.length === 0)) {
+        throw new AgeFormatError('Invalid recipient stanza in age header');
+      }
+      let body = '';
+      let bodyLine: string;
+      do {
+        bodyLine = readLine();
+        if (bodyLine.length > STANZA_LINE_LENGTH) {
+          throw new AgeFormatError('Invalid recipient stanza in age header');
+        }
+        body += bodyLine;
+      } while (bodyLine.length === STANZA_LINE_LENGTH);
+      stanzas.push({ type, args, body: decodeRaw(body) });
+      line = readLine();
+    }
+
+    if (!line.startsWith('--- ')) {
+      throw new AgeFormatError('Invalid age file: missing header MAC');
+    }
+    const mac = decodeRaw(line.slice(4));
+    if (stanzas.length === 0 || mac.length !== 32) {
+      throw new AgeFormatError('Invalid age file header');
+    }
+    return {
+      stanzas,
+      mac,
+      // The MAC covers everything up to and including "---"
+      macInput: data.subarray(0, offset - line.length - 1 + 3),
+      payloadStart: offset
+    };
+  }
+
+  private decryptPayload(payload: Buffer, fileKey: Buffer): Buffer {
+    if (payload.length < PAYLOAD_NONCE_LENGTH) {
+      throw new AgeFormatError('Invalid age file: truncated payload');
+    }
+    const cipher = cryptoRegistry.getCipher('chacha20-poly1305');
+    const key = payloadKey(fileKey, payload.subarray(0, PAYLOAD_NONCE_LENGTH));
+    const sealedSize = CHUNK_SIZE + cipher.authTagLength;
+
+    const chunks: Buffer[] = [];
+    let offset = PAYLOAD_NONCE_LENGTH;
+    let counter = 0;
+    do {
+      const end = Math.min(offset + sealedSize, payload.length);
+      const last = end === payload.length;
+      const sealed = payload.subarray(offset, end);
+      if (sealed.length < cipher.authTagLength) {
+        throw new AgeFormatError('Invalid age file: truncated payload');
+      }
+      const tagStart = sealed.length - cipher.authTagLength;
+      let chunk: Buffer;
+      try {
+        chunk = cipher.decrypt(key, chunkNonce(counter, last), sealed.subarray(0, tagStart), sealed.subarray(tagStart));
+      } catch {
+        throw new AgeFormatError('The age payload was modified or truncated');
+      }
+      // Only an empty file may end with an empty chunk
+      if (last && chunk.length === 0 && counter > 0) {
+        throw new AgeFormatError('Invalid age file: empty final chunk');
+      }
+      chunks.push(chunk);
+      offset = end;
+      counter++;
+    } while (offset < payload.length);
+
+    return Buffer.concat(chunks);
+  }
+}
+
+// Singleton instance
+export const ageService = new AgeService();
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { EncryptedFileSystem } from '../providers/EncryptedFileSystem';
+
+/**
+ * Schemes of documents the user edits; changes to others (output channels,
+ * logs, Git views) happen on their own and are not activity
+ */
+const EDITED_SCHEMES = new Set(['file', 'untitled', EncryptedFileSystem.scheme]);
+
+/**
+ * Auto-lock settings (minutes, 0 = off)
+ */
+export interface AutoLockSettings {
+  /** Lock after this long without edits, cursor movement or scrolling */
+  idleMinutes: number;
+  /** Lock after the VS Code window has been in the background this long */
+  blurMinutes: number;
+}
+
+/**
+ * Why the auto-lock fired
+ */
+export type AutoLockReason = 'idle' | 'blur';
+
+/**
+ * Auto-Lock Service: calls the lock handler when the window has been idle
+ * or unfocused for the configured time
+ */
+export class AutoLockService implements vscode.Disposable {
+  private settings: AutoLockSettings = { idleMinutes: 0, blurMinutes: 0 };
+  private handler?: (reason: AutoLockReason) => Promise<void>;
+  private idleTimer?: NodeJS.Timeout;
+  private blurTimer?: NodeJS.Timeout;
+  private disposables: vscode.Disposable[] = [];
+
+  configure(settings: AutoLockSettings): void {
+    this.settings = {
+      idleMinutes: Math.max(0, settings.idleMinutes),
+      blurMinutes: Math.max(0, settings.blurMinutes)
+    };
+    this.resetIdleTimer();
+    if (!vscode.window.state.focused) {
+      this.startBlurTimer();
+    } else {
+      this.clearBlurTimer();
+    }
+  }
+
+  /**
+   * Watch editor activity and window focus, calling `handler` to lock
+   */
+  start(handler: (reason: AutoLockReason) => Promise<void>): void {
+    this.handler = handler;
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0 && EDITED_SCHEMES.has(e.document.uri.scheme)) {
+          this.resetIdleTimer();
+        }
+      }),
+      vscode.window.onDidChangeTextEditorSelection(() => this.resetIdleTimer()),
+      vscode.window.onDidChangeTextEditorVisibleRanges(() => this.resetIdleTimer()),
+      vscode.window.onDidChangeActiveTextEditor(() => this.resetIdleTimer()),
+      vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+          this.clearBlurTimer();
+          this.resetIdleTimer();
+        } else {
+          this.startBlurTimer();
+        }
+      })
+    );
+    this.resetIdleTimer();
+  }
+
+  private resetIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+    if (this.handler && this.settings.idleMinutes > 0) {
+      this.idleTimer = setTimeout(() => this.lock('idle'), this.settings.idleMinutes * 60000);
+    }
+  }
+
+  private startBlurTimer(): void {
+    this.clearBlurTimer();
+    if (this.handler && this.settings.blurMinutes > 0) {
+      this.blurTimer = setTimeout(() => this.lock('blur'), this.settings.blurMinutes * 60000);
+    }
+  }
+
+  private clearBlurTimer(): void {
+    if (this.blurTimer) {
+      clearTimeout(this.blurTimer);
+      this.blurTimer = undefined;
+    }
+  }
+
+  private lock(reason: AutoLockReason): void {
+    this.clearBlurTimer();
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
+    }
+    this.handler?.(reason).catch(error => {
+      vscode.window.showErrorMessage(`Auto-lock failed: ${error instanceof Error ? error.message : error}`);
+    });
+  }
+
+  dispose(): void {
+    this.clearBlurTimer();
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.handler = undefined;
+  }
+}
+
+// Singleton instance
+export const autoLockService = new AutoLockService();
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Tags that file sync tools add to conflicting copies:
+ * Dropbox and Nextcloud `name (… conflicted copy …).ext`,
+ * Syncthing `name.sync-conflict-20240101-120000-ABCDEFG.ext`
+ */
+const COPY_TAG_PATTERN = / \([^()]*conflicted copy[^()]*\)|\.sync-conflict-\d{8}-\d{6}(?:-[A-Z0-9]{7})?/;
+
+/**
+ * Both sides of a git merge conflict in a file
+ */
+export interface ConflictSides {
+  ours: string;
+  theirs: string;
+  /** Common ancestor, with merge.conflictStyle diff3 or zdiff3 */
+  base?: string;
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+/**
+ * Conflict Service: finds git conflict markers in encrypted files and the
+ * conflicting copies that Dropbox, Nextcloud and Syncthing create next to them
+ */
+export class ConflictService {
+  /**
+   * Check whether text contains git conflict markers
+   */
+  hasConflictMarkers(text: string): boolean {
+    return /^<{7}(?: |\r?$)/m.test(text) && /^>{7}(?: |\r?$)/m.test(text);
+  }
+
+  /**
+   * Rebuild both sides (and the base, if recorded) of a file with git
+   * conflict markers
+   * Returns undefined if the markers are incomplete
+   */
+  splitConflict(text: string): ConflictSides | undefined {
+    const sides = { ours: '', theirs: '', base: '' };
+    let oursLabel = '';
+    let theirsLabel = '';
+    let hasBase = false;
+    let conflicts = 0;
+    let state: 'common' | 'ours' | 'base' | 'theirs' = 'common';
+
+    for (const line of text.split(/(?<=\n)/)) {
+      const marker = /^([<|=>])\1{6}(?: (.*?))?\r?\n?$/.exec(line);
+      const kind = marker?.[1];
+      if (kind === '<' && state === 'common') {
+        state = 'ours';
+        oursLabel ||= marker![2] ?? '';
+      } else if (kind === '|' && state === 'ours') {
+        state = 'base';
+        hasBase = true;
+      } else if (kind === '=' && !marker![2] && (state === 'ours' || state === 'base')) {
+        state = 'theirs';
+      } else if (kind === '>' && state === 'theirs') {
+        state = 'common';
+        theirsLabel ||= marker![2] ?? '';
+        conflicts++;
+      } else if (state === 'common') {
+        sides.ours += line;
+        sides.theirs += line;
+        sides.base += line;
+      } else {
+        sides[state] += line;
+      }
+    }
+
+    if (state !== 'common' || conflicts === 0) {
+      return undefined;
+    }
+    return {
+      ours: sides.ours,
+      theirs: sides.theirs,
+      base: hasBase ? sides.base : undefined,
+      oursLabel: oursLabel || 'ours',
+      theirsLabel: theirsLabel || 'theirs'
+    };
+  }
+
+  /**
+   * Path of the file a sync conflict copy belongs to
+   * Returns undefined if the path is not a conflict copy
+   */
+  getOriginalPath(copyPath: string): string | undefined {
+    const name = path.basename(copyPath);
+    const original = name.replace(COPY_TAG_PATTERN, '');
+    return original !== name ? path.join(path.dirname(copyPath), original) : undefined;
+  }
+
+  /**
+   * Tag of a sync conflict copy, e.g. "Ann's conflicted copy 2024-05-01"
+   */
+  getCopyTag(copyPath: string): string | undefined {
+    return COPY_TAG_PATTERN.exec(path.basename(copyPath))?.[0].replace(/^ \(|\)$|^\./g, '');
+  }
+
+  /**
+   * Sync conflict copies of a file in its folder, sorted by name
+   */
+  async findConflictCopies(filePath: string): Promise<string[]> {
+    const folder = path.dirname(filePath);
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(folder));
+    } catch {
+      return [];
+    }
+    return entries
+      .filter(([name, type]) => type === vscode.FileType.File && name !== path.basename(filePath))
+      .map(([name]) => path.join(folder, name))
+      .filter(copy => this.getOriginalPath(copy) === filePath)
+      .sort();
+  }
+}
+
+// Singleton instance
+export const conflictService = new ConflictService();
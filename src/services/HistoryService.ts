@@ -0,0 +1,65 @@
+import type { FileRevision } from '../types';
+
+/**
+ * Revision history settings
+ */
+export interface HistorySettings {
+  /** Keep earlier revisions inside each .md.enc file */
+  enabled: boolean;
+  /** Most revisions kept per file */
+  maxRevisions: number;
+  /** Revisions older than this are dropped (days, 0 = no limit) */
+  maxAgeDays: number;
+  /** Shortest time between two recorded revisions, so auto-save does not record every keystroke */
+  intervalMinutes: number;
+}
+
+/**
+ * History Service: decides when a save records the previous revision and
+ * which revisions are kept
+ */
+export class HistoryService {
+  private settings: HistorySettings = { enabled: false, maxRevisions: 20, maxAgeDays: 30, intervalMinutes: 10 };
+
+  configure(settings: HistorySettings): void {
+    this.settings = {
+      enabled: settings.enabled,
+      maxRevisions: Math.max(1, Math.floor(settings.maxRevisions)),
+      maxAgeDays: Math.max(0, settings.maxAgeDays),
+      intervalMinutes: Math.max(0, settings.intervalMinutes)
+    };
+  }
+
+  get enabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Check whether a save should record a revision, given when this file last recorded one
+   */
+  isDue(lastRecorded: number | undefined, now = Date.now()): boolean {
+    return this.settings.enabled &&
+      (lastRecorded === undefined || now - lastRecorded >= this.settings.intervalMinutes * 60000);
+  }
+
+  /**
+   * Add a revision in front of the others (newest first) and apply retention
+   */
+  add(revisions: FileRevision[], revision: FileRevision, now = Date.now()): FileRevision[] {
+    return this.prune([revision, ...revisions], now);
+  }
+
+  /**
+   * Drop revisions beyond the count and age limits
+   */
+  prune(revisions: FileRevision[], now = Date.now()): FileRevision[] {
+    const { maxRevisions, maxAgeDays } = this.settings;
+    const oldest = maxAgeDays > 0 ? now - maxAgeDays * 86400000 : -Infinity;
+    return revisions
+      .filter(revision => !(Date.parse(revision.saved) < oldest))
+      .slice(0, maxRevisions);
+  }
+}
+
+// Singleton instance
+export const historyService = new HistoryService();
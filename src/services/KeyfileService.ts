@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { encryptionService } from '../core/EncryptionService';
+import { passwordService } from './PasswordService';
+
+/**
+ * Keyfile selected for a file, with the hash used for key derivation
+ */
+export interface KeyfileSelection {
+  keyfile: string;
+  keyfileHash: Buffer;
+}
+
+/**
+ * Keyfile Service for picking and reading keyfiles (second unlock factor)
+ */
+export class KeyfileService {
+  /**
+   * Let the user pick a local keyfile
+   * Returns the file path, or undefined if cancelled
+   */
+  async pick(title: string = 'Select Keyfile'): Promise<string | undefined> {
+    const uris = await vscode.window.showOpenDialog({
+      title,
+      openLabel: 'Use Keyfile',
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false
+    });
+    return uris?.[0]?.fsPath;
+  }
+
+  /**
+   * Read a keyfile and return its hash
+   * Throws if the keyfile cannot be read or is empty
+   */
+  async hash(keyfile: string): Promise<Buffer> {
+    const contents = await vscode.workspace.fs.readFile(vscode.Uri.file(keyfile));
+    if (contents.byteLength === 0) {
+      throw new Error('Keyfile is empty');
+    }
+    return encryptionService.hashKeyfile(contents);
+  }
+
+  /**
+   * Resolve the keyfile for an encrypted file that requires one.
+   * Tries the preferred path, then the cached one, then asks the user.
+   * Returns null if the user cancelled.
+   */
+  async resolve(filePath: string, preferred?: string): Promise<KeyfileSelection | null> {
+    const candidates = [preferred, passwordService.get(filePath).keyfile];
+    for (const keyfile of candidates) {
+      if (!keyfile) { continue; }
+      try {
+        return { keyfile, keyfileHash: await this.hash(keyfile) };
+      } catch {
+        // Keyfile moved or unreadable, try the next one
+      }
+    }
+
+    while (true) {
+      const keyfile = await this.pick('This file requires a keyfile');
+      if (!keyfile) {
+        return null;
+      }
+      try {
+        return { keyfile, keyfileHash: await this.hash(keyfile) };
+      } catch (error) {
+        vscode.window.showErrorMessage(`Cannot read keyfile: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const keyfileService = new KeyfileService();
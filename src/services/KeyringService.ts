@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { passwordGeneratorService } from './PasswordGeneratorService';
+import type { EncryptedFileData } from '../types';
+
+/**
+ * Password stored in the keyring, found by the key ID files record
+ */
+export interface KeyringEntry {
+  keyId: string;
+  password: string;
+  /** Where the password is used (workspace-relative path), for display */
+  label?: string;
+  added: string;
+}
+
+/**
+ * Decrypted keyring content
+ */
+interface KeyringContent {
+  version: number;
+  entries: KeyringEntry[];
+}
+
+const KEYRING_VERSION = 1;
+const KEYRING_FILE_NAME = 'keyring.json';
+
+/**
+ * Length of the random passwords created for new files
+ */
+const GENERATED_PASSWORD_LENGTH = 32;
+
+/**
+ * Keyring Service: a file encrypted like a .md.enc file under one master
+ * password, holding the individual passwords of many files and markers.
+ * While it is unlocked, passwords are looked up by key ID and new files get
+ * a unique random password.
+ */
+export class KeyringService {
+  private defaultDirectory?: string;
+  private filePath?: string;
+  private masterPassword?: string;
+  private hint = '';
+  private entries: KeyringEntry[] = [];
+  /** Saves run one at a time */
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * Directory of the keyring when no path is configured (extension global storage)
+   */
+  setDefaultDirectory(directory: string): void {
+    this.defaultDirectory = directory;
+  }
+
+  /**
+   * Set the keyring path (empty for the default); locks if it changes
+   */
+  configure(filePath: string): void {
+    const resolved = filePath || (this.defaultDirectory ? path.join(this.defaultDirectory, KEYRING_FILE_NAME) : undefined);
+    if (resolved !== this.filePath) {
+      this.lock();
+      this.filePath = resolved;
+    }
+  }
+
+  get path(): string | undefined {
+    return this.filePath;
+  }
+
+  get isUnlocked(): boolean {
+    return this.masterPassword !== undefined;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async exists(): Promise<boolean> {
+    if (!this.filePath) {
+      return false;
+    }
+    try {
+      await fs.promises.access(this.filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Hint of the master password, readable without unlocking
+   */
+  async readHint(): Promise<string> {
+    return (await this.readFile()).hint ?? '';
+  }
+
+  /**
+   * Create an empty keyring and leave it unlocked
+   * Throws if no path is configured or a keyring already exists
+   */
+  async create(masterPassword: string, hint = ''): Promise<void> {
+    if (await this.exists()) {
+      throw new Error(`A keyring already exists at ${this.filePath}`);
+    }
+    this.masterPassword = masterPassword;
+    this.hint = hint;
+    this.entries = [];
+    await this.save();
+  }
+
+  /**
+   * Unlock the keyring with the master password
+   * Returns false if the password is wrong
+   * Throws if the file cannot be read, or HeaderModifiedError if it was modified
+   */
+  async unlock(masterPassword: string, signal?: AbortSignal): Promise<boolean> {
+    const fileData = await this.readFile();
+    const content = await encryptionService.decryptFileData(fileData, masterPassword, undefined, signal);
+    if (content === null) {
+      return false;
+    }
+    const parsed = JSON.parse(content) as KeyringContent;
+    this.entries = Array.isArray(parsed.entries) ? parsed.entries : [];
+    // New files and markers get the ID their password already has here
+    for (const entry of this.entries) {
+      encryptionService.rememberKeyId(entry.password, entry.keyId);
+    }
+    this.hint = fileData.hint ?? '';
+    this.masterPassword = masterPassword;
+    return true;
+  }
+
+  /**
+   * Forget the master password and the stored passwords
+   */
+  lock(): void {
+    this.masterPassword = undefined;
+    this.entries = [];
+  }
+
+  /**
+   * Password stored for any of the key IDs, if the keyring is unlocked
+   */
+  lookup(keyIds: string[]): string | undefined {
+    for (const keyId of keyIds) {
+      const entry = this.entries.find(e => e.keyId === keyId);
+      if (entry) {
+        return entry.password;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Store a password under every key ID it is known by (no-op if locked or
+   * already stored), so files written with any of them find it
+   * Failures to write the keyring are reported, not thrown
+   */
+  async add(password: string, label?: string): Promise<void> {
+    if (!this.isUnlocked) {
+      return;
+    }
+    const keyIds = new Set([encryptionService.getKeyId(password), ...encryptionService.getKnownKeyIds(password)]);
+    const missing = [...keyIds].filter(keyId => !this.entries.some(e => e.keyId === keyId && e.password === password));
+    if (missing.length === 0) {
+      return;
+    }
+    const added = new Date().toISOString();
+    this.entries.push(...missing.map(keyId => ({ keyId, password, label, added })));
+    try {
+      await this.save();
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        `Cannot save the keyring: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Generate a unique random password for a new file and store it
+   * Throws if the keyring is locked or cannot be saved
+   */
+  async createPassword(label?: string): Promise<string> {
+    if (!this.isUnlocked) {
+      throw new Error('The keyring is locked');
+    }
+    const { password } = passwordGeneratorService.generatePassword(
+      GENERATED_PASSWORD_LENGTH,
+      ['lowercase', 'uppercase', 'digits', 'symbols']
+    );
+    const keyId = encryptionService.getKeyId(password);
+    this.entries.push({ keyId, password, label, added: new Date().toISOString() });
+    await this.save();
+    return password;
+  }
+
+  private async readFile(): Promise<EncryptedFileData> {
+    if (!this.filePath) {
+      throw new Error('No keyring path is configured');
+    }
+    return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as EncryptedFileData;
+  }
+
+  private save(): Promise<void> {
+    const run = this.saving.then(() => this.write());
+    this.saving = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(): Promise<void> {
+    if (!this.filePath || this.masterPassword === undefined) {
+      throw new Error('The keyring is locked');
+    }
+    const content: KeyringContent = { version: KEYRING_VERSION, entries: this.entries };
+    const fileData = await encryptionService.encryptFileContent(
+      JSON.stringify(content),
+      this.masterPassword,
+      this.hint || undefined
+    );
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write a temporary file first, so a crash never leaves a truncated keyring
+    const temporary = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(temporary, JSON.stringify(fileData, null, 2), { mode: 0o600 });
+    await fs.promises.rename(temporary, this.filePath);
+  }
+}
+
+// Singleton instance
+export const keyringService = new KeyringService();
@@ -0,0 +1,484 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { keyDerivationService } from '../core/KeyDerivationService';
+
+const ARMOR_BEGIN = '-----BEGIN PGP MESSAGE-----';
+const ARMOR_END = '-----END PGP MESSAGE-----';
+
+/**
+ * Packet tags (RFC 4880 4.3)
+ */
+const TAG_SKESK = 3;
+const TAG_SED = 9;
+const TAG_COMPRESSED = 8;
+const TAG_MARKER = 10;
+const TAG_LITERAL = 11;
+const TAG_SEIPD = 18;
+const TAG_MDC = 19;
+const TAG_AEAD = 20;
+
+/**
+ * Node CFB cipher for an OpenPGP symmetric algorithm
+ */
+interface SymmetricAlgorithm {
+  cipher: string;
+  keyLength: number;
+}
+
+/**
+ * Symmetric algorithms (RFC 4880 9.2); AES-256 is used for writing
+ */
+const AES256 = 9;
+const AES256_CFB: SymmetricAlgorithm = { cipher: 'aes-256-cfb', keyLength: 32 };
+const SYMMETRIC_ALGORITHMS = new Map<number, SymmetricAlgorithm>([
+  [7, { cipher: 'aes-128-cfb', keyLength: 16 }],
+  [8, { cipher: 'aes-192-cfb', keyLength: 24 }],
+  [AES256, AES256_CFB]
+]);
+const BLOCK_SIZE = 16;
+
+/**
+ * Hash algorithms (RFC 4880 9.4) usable in S2K specifiers
+ */
+const HASH_ALGORITHMS = new Map<number, string>([
+  [1, 'md5'],
+  [2, 'sha1'],
+  [3, 'ripemd160'],
+  [8, 'sha256'],
+  [9, 'sha384'],
+  [10, 'sha512'],
+  [11, 'sha224']
+]);
+const SHA256 = 8;
+
+/**
+ * Coded S2K count written by default (65011712 bytes, the largest encodable count)
+ */
+const DEFAULT_S2K_COUNT = 0xff;
+
+/**
+ * Largest decompressed content, so a small compressed packet cannot exhaust memory
+ */
+const MAX_DECOMPRESSED_SIZE = 256 * 1024 * 1024;
+
+/**
+ * Raised for data that is not a supported OpenPGP symmetric message
+ */
+export class OpenPgpFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenPgpFormatError';
+  }
+}
+
+/**
+ * Packet with its tag and (reassembled) body
+ */
+interface Packet {
+  tag: number;
+  body: Buffer;
+}
+
+/**
+ * Parsed symmetric-key encrypted session key packet
+ */
+interface SessionKeyPacket {
+  algorithm: SymmetricAlgorithm;
+  hash: string;
+  salt: Buffer;
+  count: number;
+  encryptedKey: Buffer;
+}
+
+/**
+ * Decrypted OpenPGP message
+ */
+export interface OpenPgpMessage {
+  data: Buffer;
+  /** File name recorded in the literal data packet */
+  filename: string;
+}
+
+function decodeS2kCount(coded: number): number {
+  return (16 + (coded & 15)) << ((coded >> 4) + 6);
+}
+
+/**
+ * CRC-24 of armored messages (RFC 4880 6.1)
+ */
+function crc24(data: Buffer): number {
+  let crc = 0xb704ce;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1;
+      if (crc & 0x1000000) {
+        crc ^= 0x1864cfb;
+      }
+    }
+  }
+  return crc & 0xffffff;
+}
+
+/**
+ * Read the packets of a message, joining partial body lengths
+ */
+function readPackets(data: Buffer): Packet[] {
+  const packets: Packet[] = [];
+  let offset = 0;
+  const need = (length: number): void => {
+    if (offset + length > data.length) {
+      throw new OpenPgpFormatError('OpenPGP message is truncated');
+    }
+  };
+
+  while (offset < data.length) {
+    const header = data[offset++];
+    if (!(header & 0x80)) {
+      throw new OpenPgpFormatError('Invalid OpenPGP packet header');
+    }
+
+    if (!(header & 0x40)) {
+      // Old format: tag in bits 5-2, length type in bits 1-0
+      const tag = (header >> 2) & 0x0f;
+      const lengthType = header & 0x03;
+      let length: number;
+      if (lengthType === 3) {
+        length = data.length - offset;
+      } else {
+        const size = 1 << lengthType;
+        need(size);
+        length = data.readUIntBE(offset, size);
+        offset += size;
+      }
+      need(length);
+      packets.push({ tag, body: data.subarray(offset, offset + length) });
+      offset += length;
+      continue;
+    }
+
+    // New format: the body may be split into partial lengths
+    const tag = header & 0x3f;
+    const parts: Buffer[] = [];
+    for (;;) {
+      need(1);
+      const first = data[offset++];
+      let length: number;
+      let partial = false;
+      if (first < 192) {
+        length = first;
+      } else if (first < 224) {
+        need(1);
+        length = ((first - 192) << 8) + data[offset++] + 192;
+      } else if (first === 255) {
+        need(4);
+        length = data.readUInt32BE(offset);
+        offset += 4;
+      } else {
+        length = 1 << (first & 0x1f);
+        partial = true;
+      }
+      need(length);
+      parts.push(data.subarray(offset, offset + length));
+      offset += length;
+      if (!partial) {
+        break;
+      }
+    }
+    packets.push({ tag, body: Buffer.concat(parts) });
+  }
+  return packets;
+}
+
+/**
+ * Encode a new-format packet with a definite length
+ */
+function writePacket(tag: number, body: Buffer): Buffer {
+  let length: Buffer;
+  if (body.length < 192) {
+    length = Buffer.from([body.length]);
+  } else if (body.length < 8384) {
+    const value = body.length - 192;
+    length = Buffer.from([(value >> 8) + 192, value & 0xff]);
+  } else {
+    length = Buffer.alloc(5);
+    length[0] = 255;
+    length.writeUInt32BE(body.length, 1);
+  }
+  return Buffer.concat([Buffer.from([0xc0 | tag]), length, body]);
+}
+
+function cfb({ cipher }: SymmetricAlgorithm, key: Buffer, data: Buffer, encrypt: boolean): Buffer {
+  const iv = Buffer.alloc(BLOCK_SIZE);
+  const transform = encrypt
+    ? crypto.createCipheriv(cipher, key, iv)
+    : crypto.createDecipheriv(cipher, key, iv);
+  return Buffer.concat([transform.update(data), transform.final()]);
+}
+
+/**
+ * OpenPGP Service: reads and writes RFC 4880 password-encrypted messages
+ * as produced by `gpg --symmetric` (binary or ASCII-armored).
+ *
+ * Messages consist of a symmetric-key encrypted session key packet (SKESK)
+ * and a symmetrically encrypted integrity protected data packet (SEIPD),
+ * which holds a literal data packet, optionally compressed, and an MDC.
+ */
+export class OpenPgpService {
+  /**
+   * Check whether bytes look like an OpenPGP message (armored, or binary
+   * starting with a session key or marker packet)
+   */
+  isOpenPgpMessage(bytes: Uint8Array): boolean {
+    const head = Buffer.from(bytes.subarray(0, 64));
+    if (head.toString('latin1').trimStart().startsWith(ARMOR_BEGIN)) {
+      return true;
+    }
+    if (head.length < 2 || !(head[0] & 0x80)) {
+      return false;
+    }
+    const tag = head[0] & 0x40 ? head[0] & 0x3f : (head[0] >> 2) & 0x0f;
+    return tag === TAG_SKESK || tag === TAG_MARKER;
+  }
+
+  /**
+   * Encrypt like `gpg --symmetric --cipher-algo AES256 [--armor]`
+   */
+  async encrypt(
+    plaintext: Buffer,
+    passphrase: string,
+    options: { armor?: boolean; filename?: string } = {}
+  ): Promise<Buffer> {
+    const salt = crypto.randomBytes(8);
+    const key = await keyDerivationService.derive(
+      passphrase,
+      salt,
+      { name: 'openpgp-s2k', hash: 'sha256', count: decodeS2kCount(DEFAULT_S2K_COUNT) },
+      AES256_CFB.keyLength
+    );
+    // Version 4, AES-256, iterated and salted S2K; the derived key is the session key
+    const skesk = writePacket(TAG_SKESK, Buffer.concat([
+      Buffer.from([4, AES256, 3, SHA256]),
+      salt,
+      Buffer.from([DEFAULT_S2K_COUNT])
+    ]));
+
+    const filename = Buffer.from(options.filename ?? '', 'utf8').subarray(0, 255);
+    const date = Buffer.alloc(4);
+    date.writeUInt32BE(Math.floor(Date.now() / 1000));
+    const literal = writePacket(TAG_LITERAL, Buffer.concat([
+      Buffer.from(['b'.charCodeAt(0), filename.length]),
+      filename,
+      date,
+      plaintext
+    ]));
+
+    // Random block with its last two bytes repeated (quick password check), data, then the MDC
+    const prefix = crypto.randomBytes(BLOCK_SIZE);
+    const protectedData = Buffer.concat([prefix, prefix.subarray(-2), literal, Buffer.from([0xd3, 0x14])]);
+    const mdc = crypto.createHash('sha1').update(protectedData).digest();
+    const seipd = writePacket(TAG_SEIPD, Buffer.concat([
+      Buffer.from([1]),
+      cfb(AES256_CFB, key, Buffer.concat([protectedData, mdc]), true)
+    ]));
+
+    const message = Buffer.concat([skesk, seipd]);
+    return options.armor ? Buffer.from(this.armor(message), 'ascii') : message;
+  }
+
+  /**
+   * Decrypt a password-encrypted OpenPGP message
+   * Returns null if the passphrase is wrong; a change that garbles the
+   * integrity check packet itself cannot be told from that
+   * Throws OpenPgpFormatError for unsupported or modified messages
+   */
+  async decrypt(bytes: Buffer, passphrase: string, signal?: AbortSignal): Promise<OpenPgpMessage | null> {
+    const packets = readPackets(this.dearmor(bytes));
+
+    if (packets.some(packet => packet.tag === TAG_AEAD)) {
+      throw new OpenPgpFormatError('AEAD-encrypted OpenPGP messages are not supported; encrypt with "gpg --rfc4880 --symmetric"');
+    }
+    if (packets.some(packet => packet.tag === TAG_SED)) {
+      throw new OpenPgpFormatError('The message has no integrity protection (MDC) and is not decrypted');
+    }
+    const seipd = packets.find(packet => packet.tag === TAG_SEIPD);
+    const sessionKeyPackets = packets.filter(packet => packet.tag === TAG_SKESK);
+    if (!seipd) {
+      throw new OpenPgpFormatError('No encrypted data in OpenPGP message');
+    }
+    if (sessionKeyPackets.length === 0) {
+      throw new OpenPgpFormatError('The message is encrypted to a public key; only password-encrypted messages are supported');
+    }
+    if (seipd.body[0] !== 1) {
+      throw new OpenPgpFormatError(`Unsupported encrypted data packet version ${seipd.body[0]}`);
+    }
+
+    // Set when a passphrase decrypted the data but the integrity check failed
+    let modified = false;
+    for (const packet of sessionKeyPackets) {
+      const skesk = this.parseSessionKeyPacket(packet.body);
+      const s2kKey = await keyDerivationService.derive(
+        passphrase,
+        skesk.salt,
+        { name: 'openpgp-s2k', hash: skesk.hash, count: skesk.count },
+        skesk.algorithm.keyLength,
+        signal
+      );
+
+      let algorithm = skesk.algorithm;
+      let sessionKey = s2kKey;
+      if (skesk.encryptedKey.length > 0) {
+        // A wrong passphrase yields a random algorithm byte or key length
+        const decrypted = cfb(skesk.algorithm, s2kKey, skesk.encryptedKey, false);
+        const sessionAlgorithm = SYMMETRIC_ALGORITHMS.get(decrypted[0]);
+        sessionKey = decrypted.subarray(1);
+        if (!sessionAlgorithm || sessionAlgorithm.keyLength !== sessionKey.length) {
+          continue;
+        }
+        algorithm = sessionAlgorithm;
+      }
+
+      const plain = cfb(algorithm, sessionKey, seipd.body.subarray(1), false);
+      if (plain.length < BLOCK_SIZE + 2 + 22 ||
+        plain[BLOCK_SIZE - 2] !== plain[BLOCK_SIZE] || plain[BLOCK_SIZE - 1] !== plain[BLOCK_SIZE + 1]) {
+        continue;
+      }
+      // A wrong passphrase passes the 2-byte quick check once in 65536 tries, and then
+      // garbles the MDC packet header too; a modified message keeps it
+      const mdcStart = plain.length - 22;
+      if (plain[mdcStart] !== 0xd3 || plain[mdcStart + 1] !== 0x14) {
+        continue;
+      }
+      const expected = crypto.createHash('sha1').update(plain.subarray(0, mdcStart + 2)).digest();
+      if (!crypto.timingSafeEqual(expected, plain.subarray(mdcStart + 2))) {
+        modified = true;
+        continue;
+      }
+      return this.readLiteralData(plain.subarray(BLOCK_SIZE + 2, mdcStart));
+    }
+    if (modified) {
+      throw new OpenPgpFormatError('The OpenPGP message was modified (integrity check failed)');
+    }
+    return null;
+  }
+
+  private parseSessionKeyPacket(body: Buffer): SessionKeyPacket {
+    if (body[0] !== 4) {
+      throw new OpenPgpFormatError(`Unsupported session key packet version ${body[0]}`);
+    }
+    const algorithm = SYMMETRIC_ALGORITHMS.get(body[1]);
+    if (!algorithm) {
+      throw new OpenPgpFormatError(`Unsupported cipher algorithm ${body[1]}; only AES is supported`);
+    }
+    const type = body[2];
+    const hash = HASH_ALGORITHMS.get(body[3]);
+    if (!hash) {
+      throw new OpenPgpFormatError(`Unsupported S2K hash algorithm ${body[3]}`);
+    }
+    switch (type) {
+      case 0:
+        return { algorithm, hash, salt: Buffer.alloc(0), count: 0, encryptedKey: body.subarray(4) };
+      case 1:
+        return { algorithm, hash, salt: body.subarray(4, 12), count: 0, encryptedKey: body.subarray(12) };
+      case 3:
+        return {
+          algorithm,
+          hash,
+          salt: body.subarray(4, 12),
+          count: decodeS2kCount(body[12]),
+          encryptedKey: body.subarray(13)
+        };
+      default:
+        throw new OpenPgpFormatError(`Unsupported S2K type ${type}`);
+    }
+  }
+
+  /**
+   * Unwrap compressed data and return the contents of the literal data packet
+   */
+  private readLiteralData(data: Buffer): OpenPgpMessage {
+    for (const packet of readPackets(data)) {
+      if (packet.tag === TAG_COMPRESSED) {
+        const algorithm = packet.body[0];
+        const compressed = packet.body.subarray(1);
+        switch (algorithm) {
+          case 0:
+            return this.readLiteralData(compressed);
+          case 1:
+            return this.readLiteralData(this.inflate(() => zlib.inflateRawSync(compressed, { maxOutputLength: MAX_DECOMPRESSED_SIZE })));
+          case 2:
+            return this.readLiteralData(this.inflate(() => zlib.inflateSync(compressed, { maxOutputLength: MAX_DECOMPRESSED_SIZE })));
+          default:
+            throw new OpenPgpFormatError(`Unsupported compression algorithm ${algorithm} (BZip2 is not available)`);
+        }
+      }
+      if (packet.tag === TAG_LITERAL) {
+        const nameLength = packet.body[1];
+        return {
+          filename: packet.body.subarray(2, 2 + nameLength).toString('utf8'),
+          data: packet.body.subarray(2 + nameLength + 4)
+        };
+      }
+      if (packet.tag !== TAG_MARKER && packet.tag !== TAG_MDC) {
+        throw new OpenPgpFormatError(`Unexpected OpenPGP packet ${packet.tag} in encrypted data`);
+      }
+    }
+    throw new OpenPgpFormatError('No literal data in OpenPGP message');
+  }
+
+  /**
+   * Run a zlib decompression, reporting damaged or oversized data as OpenPgpFormatError
+   */
+  private inflate(decompress: () => Buffer): Buffer {
+    try {
+      return decompress();
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new OpenPgpFormatError(
+          `The decompressed OpenPGP message is larger than ${MAX_DECOMPRESSED_SIZE / 1024 / 1024} MB`
+        );
+      }
+      throw new OpenPgpFormatError(
+        `Cannot decompress the OpenPGP message: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * ASCII armor with a CRC-24 checksum
+   */
+  private armor(message: Buffer): string {
+    const checksum = Buffer.alloc(3);
+    checksum.writeUIntBE(crc24(message), 0, 3);
+    const lines = message.toString('base64').match(/.{1,64}/g) ?? [];
+    return [ARMOR_BEGIN, '', ...lines, `=${checksum.toString('base64')}`, ARMOR_END, ''].join('\n');
+  }
+
+  /**
+   * Strip the ASCII armor, if any, verifying its checksum
+   */
+  private dearmor(bytes: Buffer): Buffer {
+    const text = bytes.toString('latin1');
+    const begin = text.indexOf(ARMOR_BEGIN);
+    if (begin === -1 || text.slice(0, begin).trim() !== '') {
+      return bytes;
+    }
+    const lines = text.slice(begin + ARMOR_BEGIN.length).split(/\r?\n/).map(line => line.trim());
+    const end = lines.indexOf(ARMOR_END);
+    if (end === -1) {
+      throw new OpenPgpFormatError('Invalid armored OpenPGP message');
+    }
+    // Armor headers ("Version: …") end with an empty line
+    const bodyStart = lines.indexOf('', 1) === -1 ? 1 : lines.indexOf('', 1) + 1;
+    const body = lines.slice(bodyStart, end).filter(line => line !== '');
+    const checksumLine = body.length > 0 && body[body.length - 1].startsWith('=') ? body.pop() : undefined;
+    const message = Buffer.from(body.join(''), 'base64');
+    if (checksumLine && Buffer.from(checksumLine.slice(1), 'base64').readUIntBE(0, 3) !== crc24(message)) {
+      throw new OpenPgpFormatError('Armored OpenPGP message is corrupted (checksum mismatch)');
+    }
+    return message;
+  }
+}
+
+// Singleton instance
+export const openPgpService = new OpenPgpService();
@@ -0,0 +1,158 @@
+import * as crypto from 'crypto';
+import { keyDerivationService, KdfCancelledError } from '../core/KeyDerivationService';
+
+/**
+ * Magic of `openssl enc` output with a salt, followed by the 8-byte salt
+ */
+const SALTED_MAGIC = Buffer.from('Salted__', 'ascii');
+/** "Salted__" as it starts base64 output (`openssl enc -a`) */
+const SALTED_MAGIC_BASE64 = 'U2FsdGVkX1';
+const SALT_LENGTH = 8;
+const BLOCK_SIZE = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Iteration count of `openssl enc -pbkdf2` when `-iter` is not given
+ */
+export const DEFAULT_OPENSSL_ITERATIONS = 10000;
+
+/**
+ * Key and IV derivation of `openssl enc`
+ */
+type OpenSslKdf = { name: 'pbkdf2'; iterations: number } | { name: 'evp'; digest: 'sha256' | 'md5' };
+
+/**
+ * Legacy key derivation of `openssl enc` without `-pbkdf2` (one hash round)
+ */
+function evpBytesToKey(password: Buffer, salt: Buffer, digest: string, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  let previous = Buffer.alloc(0);
+  let derived = 0;
+  while (derived < length) {
+    previous = crypto.createHash(digest).update(previous).update(password).update(salt).digest();
+    blocks.push(previous);
+    derived += previous.length;
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+/**
+ * Check whether decrypted bytes are valid UTF-8 text
+ */
+function isUtf8Text(data: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * OpenSSL Service: reads and writes the "Salted__" container of
+ * `openssl enc -aes-256-cbc -pbkdf2` (binary or base64 with `-a`).
+ *
+ * The container is not authenticated: a wrong password is only detected by
+ * invalid padding, and modifications are not detected at all.
+ */
+export class OpenSslService {
+  /**
+   * Check whether bytes start with the "Salted__" magic (binary or base64)
+   */
+  isOpenSslFormat(bytes: Uint8Array): boolean {
+    const head = Buffer.from(bytes.subarray(0, 32));
+    return head.subarray(0, SALTED_MAGIC.length).equals(SALTED_MAGIC) ||
+      head.toString('latin1').trimStart().startsWith(SALTED_MAGIC_BASE64);
+  }
+
+  /**
+   * Encrypt like `openssl enc -aes-256-cbc -pbkdf2 -iter <iterations> [-a]`
+   */
+  async encrypt(
+    plaintext: Buffer,
+    password: string,
+    options: { iterations?: number; base64?: boolean } = {}
+  ): Promise<Buffer> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const kdf: OpenSslKdf = { name: 'pbkdf2', iterations: options.iterations ?? DEFAULT_OPENSSL_ITERATIONS };
+    const { key, iv } = await this.deriveKeyAndIv(password, salt, kdf);
+    const cipher = crypto.createCipheriv('aes-256-cbc', key, iv);
+    const output = Buffer.concat([SALTED_MAGIC, salt, cipher.update(plaintext), cipher.final()]);
+    if (!options.base64) {
+      return output;
+    }
+    // openssl wraps base64 output at 64 columns
+    const lines = output.toString('base64').match(/.{1,64}/g) ?? [];
+    return Buffer.from(lines.join('\n') + '\n', 'ascii');
+  }
+
+  /**
+   * Decrypt output of `openssl enc -aes-256-cbc` (with `-pbkdf2`, or the legacy
+   * key derivation with SHA-256 or MD5)
+   * Every candidate lets a wrong password through the padding check now and
+   * then, so the legacy ones are only accepted for output that is UTF-8 text
+   * Returns null if no key derivation yields valid padding (wrong password)
+   * Throws if the data is not a "Salted__" container
+   */
+  async decrypt(
+    bytes: Buffer,
+    password: string,
+    iterations = DEFAULT_OPENSSL_ITERATIONS,
+    signal?: AbortSignal
+  ): Promise<Buffer | null> {
+    const data = bytes.subarray(0, SALTED_MAGIC.length).equals(SALTED_MAGIC)
+      ? bytes
+      : Buffer.from(bytes.toString('latin1').replace(/\s+/g, ''), 'base64');
+    const ciphertext = data.subarray(SALTED_MAGIC.length + SALT_LENGTH);
+    if (!data.subarray(0, SALTED_MAGIC.length).equals(SALTED_MAGIC) ||
+      ciphertext.length === 0 || ciphertext.length % BLOCK_SIZE !== 0) {
+      throw new Error('Not an openssl enc file (expected "Salted__" and AES-256-CBC data)');
+    }
+    const salt = data.subarray(SALTED_MAGIC.length, SALTED_MAGIC.length + SALT_LENGTH);
+
+    const candidates: OpenSslKdf[] = [
+      { name: 'pbkdf2', iterations },
+      { name: 'evp', digest: 'sha256' },
+      { name: 'evp', digest: 'md5' }
+    ];
+    for (const kdf of candidates) {
+      const { key, iv } = await this.deriveKeyAndIv(password, salt, kdf, signal);
+      let plaintext: Buffer;
+      try {
+        const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
+        plaintext = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+      } catch {
+        // Bad padding: wrong password or another key derivation
+        continue;
+      }
+      if (kdf.name === 'pbkdf2' || isUtf8Text(plaintext)) {
+        return plaintext;
+      }
+    }
+    return null;
+  }
+
+  private async deriveKeyAndIv(
+    password: string,
+    salt: Buffer,
+    kdf: OpenSslKdf,
+    signal?: AbortSignal
+  ): Promise<{ key: Buffer; iv: Buffer }> {
+    if (signal?.aborted) {
+      throw new KdfCancelledError();
+    }
+    const material = kdf.name === 'pbkdf2'
+      ? await keyDerivationService.derive(
+        password,
+        salt,
+        { name: 'pbkdf2', digest: 'sha256', iterations: kdf.iterations },
+        KEY_LENGTH + BLOCK_SIZE,
+        signal
+      )
+      : evpBytesToKey(Buffer.from(password, 'utf8'), salt, kdf.digest, KEY_LENGTH + BLOCK_SIZE);
+    return { key: material.subarray(0, KEY_LENGTH), iv: material.subarray(KEY_LENGTH) };
+  }
+}
+
+// Singleton instance
+export const openSslService = new OpenSslService();
@@ -1,30 +1,101 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import { keyringService } from './KeyringService';
+import { MemoryPasswordStore, SecretStoragePasswordStore } from './PasswordStore';
+import type { PasswordStore } from './PasswordStore';
 import type { PasswordAndHint, PasswordCacheEntry } from '../types';
 
 /**
- * Password Service for managing session-level password caching
+ * Prefix of cache keys that index passwords by key ID
+ */
+export const KEY_ID_PREFIX = 'key:';
+
+/**
+ * Prefix of folder level cache keys, followed by the folder path
+ */
+export const FOLDER_PREFIX = 'folder:';
+
+/**
+ * Password Service for managing password caching, in memory for the
+ * session or, when opted in, in SecretStorage across restarts
  */
 export class PasswordService {
-  private cache: Map<string, PasswordCacheEntry> = new Map();
+  private cache: PasswordStore = new MemoryPasswordStore();
+  private secrets?: vscode.SecretStorage;
+  /** Switches between stores one at a time */
+  private switching: Promise<void> = Promise.resolve();
   private active: boolean = true;
   private timeout: number = 30; // minutes
   private level: 'workspace' | 'folder' | 'file' = 'workspace';
+  private depth: number = 0; // parent folders searched, 0 = up to the workspace folder
   private timer?: NodeJS.Timeout;
 
   constructor() {
     this.startExpirationTimer();
   }
 
+  /**
+   * Use the extension's SecretStorage for the persistent store
+   */
+  setSecretStorage(secrets: vscode.SecretStorage): void {
+    this.secrets = secrets;
+  }
+
   /**
    * Initialize with configuration
+   * `persist` keeps passwords in SecretStorage; turning it off erases them there.
+   * `folderDepth` limits how many parent folders a folder level lookup searches.
    */
-  init(active: boolean, timeout: number, level: 'workspace' | 'folder' | 'file'): void {
+  init(
+    active: boolean,
+    timeout: number,
+    level: 'workspace' | 'folder' | 'file',
+    persist = false,
+    folderDepth = 0
+  ): Promise<void> {
     this.active = active;
     this.timeout = timeout;
     this.level = level;
+    this.depth = Math.max(0, Math.floor(folderDepth));
     if (!active) {
       this.clear();
     }
+    this.switching = this.switching
+      .then(() => this.switchStore(active && persist && this.secrets !== undefined))
+      .catch(error => {
+        vscode.window.showWarningMessage(
+          `Cannot access the OS keychain, passwords are remembered for this session only: ${error instanceof Error ? error.message : error}`
+        );
+      });
+    return this.switching;
+  }
+
+  /**
+   * Move the cached entries to a persistent or session-only store
+   */
+  private async switchStore(persist: boolean): Promise<void> {
+    if (persist === this.cache.persistent || !this.secrets) {
+      return;
+    }
+    const next = persist ? await SecretStoragePasswordStore.open(this.secrets) : new MemoryPasswordStore();
+    for (const [key, entry] of this.cache.entries()) {
+      if (!next.get(key) || next.get(key)!.timestamp < entry.timestamp) {
+        next.set(key, entry);
+      }
+    }
+    if (!persist) {
+      await SecretStoragePasswordStore.erase(this.secrets);
+    }
+    this.cache.dispose();
+    this.cache = next;
+    this.removeExpiredEntries();
+    // Files written from now on get the IDs that stored passwords already have
+    for (const [key, entry] of this.cache.entries()) {
+      if (key.startsWith(KEY_ID_PREFIX)) {
+        encryptionService.rememberKeyId(entry.password, key.slice(KEY_ID_PREFIX.length));
+      }
+    }
   }
 
   /**
@@ -48,7 +119,7 @@ export class PasswordService {
     const now = Date.now();
     const timeoutMs = this.timeout * 60 * 1000;
 
-    for (const [key, entry] of this.cache) {
+    for (const [key, entry] of this.cache.entries()) {
       if (now - entry.timestamp > timeoutMs) {
         this.cache.delete(key);
       }
@@ -57,94 +128,179 @@ export class PasswordService {
 
   /**
    * Generate cache key based on current level and file path
+   * At folder level, the password is stored for the folder of the file
    */
   private getCacheKey(filePath: string): string {
     if (this.level === 'workspace') {
-      return 'workspace';
+      // Scoped to the workspace, as stored passwords are shared by all windows
+      const workspace = vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri;
+      return workspace ? `workspace:${workspace.toString()}` : 'workspace';
     } else if (this.level === 'folder') {
-      const uri = vscode.Uri.file(filePath);
-      const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-      return workspaceFolder ? `${workspaceFolder.uri.fsPath}:${filePath}` : filePath;
+      return FOLDER_PREFIX + path.dirname(filePath);
     } else {
       return filePath;
     }
   }
 
+  /**
+   * Cache keys the password of a file is looked up under, nearest first
+   * At folder level these are the folder of the file and its parents, up to
+   * the workspace folder and at most `depth` levels up (0 = no limit).
+   * Files outside the workspace only use their own folder.
+   */
+  private getLookupKeys(filePath: string): string[] {
+    if (this.level !== 'folder') {
+      return [this.getCacheKey(filePath)];
+    }
+    const root = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+    const keys: string[] = [];
+    let folder = path.dirname(filePath);
+    while (true) {
+      keys.push(FOLDER_PREFIX + folder);
+      const parent = path.dirname(folder);
+      if (!root || folder === root || parent === folder || (this.depth > 0 && keys.length > this.depth)) {
+        return keys;
+      }
+      folder = parent;
+    }
+  }
+
   /**
    * Store password in cache
+   * It is also indexed by every key ID it is known by, so files that record
+   * one of them find it even after another password took the slot of this level
    */
   put(passwordAndHint: PasswordAndHint, filePath: string): void {
     if (!this.active) {
       return;
     }
 
-    const key = this.getCacheKey(filePath);
-    this.cache.set(key, {
+    const entry: PasswordCacheEntry = {
       password: passwordAndHint.password,
       hint: passwordAndHint.hint,
-      timestamp: Date.now()
-    });
+      keyfile: passwordAndHint.keyfile,
+      timestamp: Date.now(),
+      keyId: encryptionService.getKeyId(passwordAndHint.password)
+    };
+    this.cache.set(this.getCacheKey(filePath), entry);
+    for (const keyId of encryptionService.getKnownKeyIds(entry.password)) {
+      this.cache.set(KEY_ID_PREFIX + keyId, entry);
+    }
   }
 
   /**
    * Get password from cache
+   * With the key IDs of a file, the password with a matching ID is returned,
+   * from the cache or the unlocked keyring. Otherwise the password of this
+   * level is, even if it has another ID: the same password gets a new ID when
+   * it is first used in another session. At folder level the nearest folder
+   * with a password wins.
    */
-  get(filePath: string): PasswordAndHint {
-    const key = this.getCacheKey(filePath);
-    const entry = this.cache.get(key);
+  get(filePath: string, keyIds: string[] = []): PasswordAndHint {
+    for (const keyId of keyIds) {
+      const entry = this.getEntry(KEY_ID_PREFIX + keyId);
+      if (entry) {
+        return { password: entry.password, hint: entry.hint, keyfile: entry.keyfile };
+      }
+    }
+    const fromKeyring = keyringService.lookup(keyIds);
+    if (fromKeyring) {
+      return { password: fromKeyring, hint: '' };
+    }
 
-    if (entry) {
-      // Check if expired
-      if (this.timeout > 0) {
-        const age = Date.now() - entry.timestamp;
-        const timeoutMs = this.timeout * 60 * 1000;
-        if (age > timeoutMs) {
-          this.cache.delete(key);
-          return { password: '', hint: '' };
-        }
+    for (const key of this.getLookupKeys(filePath)) {
+      const entry = this.getEntry(key);
+      if (entry) {
+        return { password: entry.password, hint: entry.hint, keyfile: entry.keyfile };
       }
-      return { password: entry.password, hint: entry.hint };
     }
 
     return { password: '', hint: '' };
   }
 
+  /**
+   * Check whether the password with a key ID is known, cached or in the unlocked keyring
+   */
+  hasKeyId(keyId: string): boolean {
+    return this.getEntry(KEY_ID_PREFIX + keyId) !== undefined || keyringService.lookup([keyId]) !== undefined;
+  }
+
+  /**
+   * Get a cache entry, removing it if expired
+   */
+  private getEntry(key: string): PasswordCacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (entry && this.timeout > 0 && Date.now() - entry.timestamp > this.timeout * 60 * 1000) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
   /**
    * Check if password exists in cache
    */
   has(filePath: string): boolean {
-    const key = this.getCacheKey(filePath);
-    const entry = this.cache.get(key);
+    return this.getLookupKeys(filePath).some(key => this.getEntry(key) !== undefined);
+  }
 
-    if (!entry) {
-      return false;
+  /**
+   * Clear password for a specific file (at folder level, the nearest one)
+   */
+  clearForFile(filePath: string): void {
+    const key = this.getLookupKeys(filePath).find(k => this.cache.get(k) !== undefined);
+    if (key) {
+      this.cache.delete(key);
     }
+  }
+
+  /**
+   * Clear all cached passwords
+   */
+  clear(): number {
+    return this.cache.clear();
+  }
 
-    // Check if expired
-    if (this.timeout > 0) {
-      const age = Date.now() - entry.timestamp;
-      const timeoutMs = this.timeout * 60 * 1000;
-      return age <= timeoutMs;
+  /**
+   * Clear all cached passwords, including ones other windows stored in
+   * SecretStorage that this window has not loaded
+   */
+  async forgetAll(): Promise<number> {
+    await this.switching;
+    const count = this.cache.clear();
+    if (this.secrets) {
+      await SecretStoragePasswordStore.erase(this.secrets);
     }
+    return count;
+  }
 
-    return true;
+  /**
+   * Cache keys with the time each password was remembered (never the passwords)
+   */
+  listKeys(): { key: string; timestamp: number; hint: string }[] {
+    this.removeExpiredEntries();
+    return this.cache.entries().map(([key, entry]) => ({ key, timestamp: entry.timestamp, hint: entry.hint }));
   }
 
   /**
-   * Clear password for a specific file
+   * Forget the password stored under a cache key
    */
-  clearForFile(filePath: string): void {
-    const key = this.getCacheKey(filePath);
+  forgetKey(key: string): void {
     this.cache.delete(key);
   }
 
   /**
-   * Clear all cached passwords
+   * Parent folders searched by folder level lookups (0 = up to the workspace folder)
    */
-  clear(): number {
-    const count = this.cache.size;
-    this.cache.clear();
-    return count;
+  get folderDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Whether remembered passwords are kept in SecretStorage
+   */
+  get persistent(): boolean {
+    return this.cache.persistent;
   }
 
   /**
@@ -161,6 +317,7 @@ export class PasswordService {
     if (this.timer) {
       clearInterval(this.timer);
     }
+    this.cache.dispose();
   }
 }
 
@@ -0,0 +1,160 @@
+import * as vscode from 'vscode';
+import type { PasswordCacheEntry } from '../types';
+
+/**
+ * Key of the secret holding all remembered passwords (JSON by cache key)
+ */
+const SECRET_KEY = 'encrypt.rememberedPasswords';
+
+/**
+ * Backend that keeps remembered passwords for PasswordService
+ *
+ * Reads are synchronous so cached passwords can be used without awaiting;
+ * persistent backends mirror their entries in memory.
+ */
+export interface PasswordStore {
+  /** Whether entries survive a window reload */
+  readonly persistent: boolean;
+  readonly size: number;
+  get(key: string): PasswordCacheEntry | undefined;
+  set(key: string, entry: PasswordCacheEntry): void;
+  delete(key: string): void;
+  /** Returns the number of removed entries */
+  clear(): number;
+  entries(): [string, PasswordCacheEntry][];
+  dispose(): void;
+}
+
+/**
+ * Session-only store (forgotten when the window closes)
+ */
+export class MemoryPasswordStore implements PasswordStore {
+  readonly persistent: boolean = false;
+  protected cache = new Map<string, PasswordCacheEntry>();
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  get(key: string): PasswordCacheEntry | undefined {
+    return this.cache.get(key);
+  }
+
+  set(key: string, entry: PasswordCacheEntry): void {
+    this.cache.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.cache.delete(key);
+  }
+
+  clear(): number {
+    const count = this.cache.size;
+    this.cache.clear();
+    return count;
+  }
+
+  entries(): [string, PasswordCacheEntry][] {
+    return [...this.cache];
+  }
+
+  dispose(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Store in VS Code SecretStorage (the OS keychain), shared by all windows
+ *
+ * Every change is applied to the stored JSON with a read-modify-write, so
+ * windows do not overwrite each other's entries.
+ */
+export class SecretStoragePasswordStore extends MemoryPasswordStore {
+  readonly persistent: boolean = true;
+  private pending: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly secrets: vscode.SecretStorage) {
+    super();
+  }
+
+  /**
+   * Open the store and load the entries saved by earlier sessions
+   */
+  static async open(secrets: vscode.SecretStorage): Promise<SecretStoragePasswordStore> {
+    const store = new SecretStoragePasswordStore(secrets);
+    for (const [key, entry] of Object.entries(await store.read())) {
+      store.cache.set(key, entry);
+    }
+    return store;
+  }
+
+  /**
+   * Delete all stored passwords without opening a store
+   */
+  static async erase(secrets: vscode.SecretStorage): Promise<void> {
+    await secrets.delete(SECRET_KEY);
+  }
+
+  set(key: string, entry: PasswordCacheEntry): void {
+    super.set(key, entry);
+    this.enqueue(async () => {
+      const stored = await this.read();
+      stored[key] = entry;
+      await this.write(stored);
+    });
+  }
+
+  delete(key: string): void {
+    super.delete(key);
+    this.enqueue(async () => {
+      const stored = await this.read();
+      delete stored[key];
+      await this.write(stored);
+    });
+  }
+
+  clear(): number {
+    const count = super.clear();
+    this.enqueue(() => SecretStoragePasswordStore.erase(this.secrets));
+    return count;
+  }
+
+  /**
+   * Wait until all changes are written
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  /**
+   * Run changes to the stored JSON one at a time
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending.then(task).catch(error => {
+      vscode.window.showWarningMessage(
+        `Cannot update passwords in the OS keychain: ${error instanceof Error ? error.message : error}`
+      );
+    });
+  }
+
+  private async write(stored: Record<string, PasswordCacheEntry>): Promise<void> {
+    if (Object.keys(stored).length === 0) {
+      await SecretStoragePasswordStore.erase(this.secrets);
+    } else {
+      await this.secrets.store(SECRET_KEY, JSON.stringify(stored));
+    }
+  }
+
+  private async read(): Promise<Record<string, PasswordCacheEntry>> {
+    const json = await this.secrets.get(SECRET_KEY);
+    if (!json) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+}
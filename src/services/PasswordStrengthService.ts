@@ -0,0 +1,243 @@
+/**
+ * Password policy for every flow that sets a password
+ */
+export interface PasswordPolicy {
+  /** Lowest accepted strength score (0-4) */
+  minScore: number;
+  minLength: number;
+  /** `block` rejects weaker passwords, `warn` asks before using them */
+  enforcement: 'block' | 'warn';
+}
+
+/**
+ * Offline strength estimate of a password
+ */
+export interface PasswordStrength {
+  /** 0 (very weak) to 4 (very strong) */
+  score: number;
+  /** Estimated entropy in bits after pattern and dictionary penalties */
+  entropy: number;
+  label: string;
+  /** Why the password is weaker than its length suggests */
+  warnings: string[];
+}
+
+const SCORE_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+
+/**
+ * Minimum entropy (bits) for scores 1-4. Encrypted files can be attacked
+ * offline, so the thresholds are well above those for online logins.
+ */
+const SCORE_THRESHOLDS = [28, 45, 60, 80];
+
+/**
+ * Most common passwords and password words (lowercase), after leetspeak is undone
+ */
+const COMMON_PASSWORDS = new Set([
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '123123', '111111', '000000',
+  '654321', '666666', '121212', '112233', '123321', '7777777', '159753', '987654321', '0123456789',
+  'password', 'passw0rd', 'qwerty', 'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'qazwsx', 'azerty',
+  'iloveyou', 'admin', 'administrator', 'welcome', 'letmein', 'monkey', 'dragon', 'master', 'login',
+  'abc123', 'football', 'baseball', 'basketball', 'soccer', 'hockey', 'princess', 'sunshine', 'shadow',
+  'superman', 'batman', 'michael', 'jennifer', 'jordan', 'hunter', 'charlie', 'thomas', 'daniel',
+  'jessica', 'ashley', 'andrew', 'robert', 'matthew', 'joshua', 'freedom', 'whatever', 'trustno1',
+  'starwars', 'pokemon', 'computer', 'internet', 'secret', 'security', 'changeme', 'default', 'access',
+  'flower', 'summer', 'winter', 'spring', 'autumn', 'cookie', 'cheese', 'banana', 'orange', 'chocolate',
+  'killer', 'pepper', 'ginger', 'hello', 'test', 'guest', 'root', 'user', 'pass', 'love', 'lovely',
+  'angel', 'family', 'friend', 'friends', 'money', 'mother', 'father', 'google', 'apple', 'samsung',
+  'mustang', 'harley', 'ranger', 'buster', 'tigger', 'maggie', 'yankees', 'liverpool',
+  'chelsea', 'arsenal', 'london', 'america', 'china', 'qwerty123', 'password1', 'password123',
+  'encrypt', 'decrypt', 'private', 'obsidian', 'vscode', 'github', 'letmein1', 'welcome1'
+]);
+
+/**
+ * Bits charged for a dictionary word: it is one of roughly this many guesses
+ */
+const DICTIONARY_BITS = Math.log2(10000);
+
+/**
+ * Keyboard rows (QWERTY, unshifted and shifted) for adjacency checks
+ */
+const KEYBOARD_ROWS = [
+  '`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./',
+  '~!@#$%^&*()_+', 'QWERTYUIOP{}|', 'ASDFGHJKL:"', 'ZXCVBNM<>?'
+];
+
+const LEET_SUBSTITUTIONS = new Map([
+  ['0', 'o'], ['1', 'i'], ['3', 'e'], ['4', 'a'], ['5', 's'], ['7', 't'], ['8', 'b'], ['@', 'a'], ['$', 's'], ['!', 'i']
+]);
+
+/**
+ * Lowercase and undo leetspeak, so "P@ssw0rd" matches "password"
+ */
+function normalize(password: string): string {
+  return password.toLowerCase().replace(/[0134578@$!]/g, c => LEET_SUBSTITUTIONS.get(c) ?? c);
+}
+
+/**
+ * Size of the character pool the password draws from
+ */
+function poolSize(chars: string[]): number {
+  let pool = 0;
+  if (chars.some(c => /[a-z]/.test(c))) { pool += 26; }
+  if (chars.some(c => /[A-Z]/.test(c))) { pool += 26; }
+  if (chars.some(c => /[0-9]/.test(c))) { pool += 10; }
+  if (chars.some(c => /[\x20-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]/.test(c))) { pool += 33; }
+  if (chars.some(c => c.codePointAt(0)! > 0x7e)) { pool += 100; }
+  return Math.max(pool, 1);
+}
+
+function areKeyboardNeighbours(a: string, b: string): boolean {
+  return KEYBOARD_ROWS.some(row => {
+    const i = row.indexOf(a);
+    return i !== -1 && (row[i + 1] === b || row[i - 1] === b);
+  });
+}
+
+/**
+ * Password Strength Service: estimates strength offline from character
+ * entropy, discounting common passwords, dictionary words, repeats,
+ * sequences (abc, 321) and keyboard walks (qwerty, asdf), and checks
+ * passwords against the configured policy
+ */
+export class PasswordStrengthService {
+  private policy: PasswordPolicy = { minScore: 2, minLength: 8, enforcement: 'warn' };
+
+  configure(policy: PasswordPolicy): void {
+    this.policy = {
+      minScore: Math.min(4, Math.max(0, Math.round(policy.minScore))),
+      minLength: Math.max(1, policy.minLength),
+      enforcement: policy.enforcement === 'block' ? 'block' : 'warn'
+    };
+  }
+
+  get currentPolicy(): PasswordPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Estimate the strength of a password
+   */
+  estimate(password: string): PasswordStrength {
+    const chars = Array.from(password);
+    const bitsPerChar = Math.log2(poolSize(chars));
+    const warnings: string[] = [];
+    const normalized = normalize(password);
+
+    let entropy: number;
+    const withoutSuffix = normalize(password.toLowerCase().replace(/[^a-z]+$/, ''));
+    if (COMMON_PASSWORDS.has(password.toLowerCase()) || COMMON_PASSWORDS.has(normalized)) {
+      entropy = DICTIONARY_BITS / 2;
+      warnings.push('This is a very common password');
+    } else if (withoutSuffix.length >= 4 && COMMON_PASSWORDS.has(withoutSuffix)) {
+      // "password2024!": a common password plus a few predictable characters
+      entropy = DICTIONARY_BITS / 2 + (chars.length - withoutSuffix.length) * Math.min(bitsPerChar, 4);
+      warnings.push('A common password with a few added characters is easy to guess');
+    } else {
+      const costs = this.characterCosts(chars, bitsPerChar, warnings);
+      this.applyDictionary(Array.from(normalized), costs, warnings);
+      entropy = costs.reduce((sum, cost) => sum + cost, 0);
+    }
+
+    // "abcabc", "passpass": a repeated unit adds almost nothing
+    const repeated = /^(.+?)\1+$/su.exec(password);
+    if (repeated) {
+      const unit = Array.from(repeated[1]);
+      const unitEntropy = this.characterCosts(unit, bitsPerChar, []).reduce((sum, cost) => sum + cost, 0);
+      entropy = Math.min(entropy, unitEntropy + Math.log2(chars.length / unit.length));
+      warnings.push('Repeated text is easy to guess');
+    }
+
+    if (chars.length < this.policy.minLength) {
+      warnings.push(`Use at least ${this.policy.minLength} characters`);
+    }
+
+    entropy = Math.max(0, Math.round(entropy));
+    const score = SCORE_THRESHOLDS.filter(threshold => entropy >= threshold).length;
+    return { score, entropy, label: SCORE_LABELS[score], warnings: [...new Set(warnings)] };
+  }
+
+  /**
+   * Check a password against the policy
+   * Returns the reason it falls short, or undefined if it is acceptable
+   */
+  checkPolicy(password: string, strength: PasswordStrength = this.estimate(password)): string | undefined {
+    if (Array.from(password).length < this.policy.minLength) {
+      return `Password must have at least ${this.policy.minLength} characters`;
+    }
+    if (strength.score < this.policy.minScore) {
+      return `Password is too weak (${strength.label}); at least "${SCORE_LABELS[this.policy.minScore]}" is required`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Render a score as a five-segment meter
+   */
+  formatMeter(strength: PasswordStrength): string {
+    return '▰'.repeat(strength.score + 1) + '▱'.repeat(4 - strength.score);
+  }
+
+  /**
+   * Bits contributed by each character: the full pool for an unpredictable
+   * one, about one bit for one that continues a repeat, a sequence or a
+   * keyboard walk
+   */
+  private characterCosts(chars: string[], bitsPerChar: number, warnings: string[]): number[] {
+    const costs: number[] = [];
+    let runLength = 1;
+    let lastStep: number | undefined;
+    for (let i = 0; i < chars.length; i++) {
+      const previous = chars[i - 1];
+      const step = previous === undefined ? undefined : chars[i].codePointAt(0)! - previous.codePointAt(0)!;
+      const continues = step !== undefined && (
+        step === 0 ||
+        (Math.abs(step) === 1 && (runLength === 1 || lastStep === step)) ||
+        areKeyboardNeighbours(previous.toLowerCase(), chars[i].toLowerCase())
+      );
+
+      if (continues) {
+        costs.push(1);
+        runLength++;
+        if (runLength === 3) {
+          warnings.push(step === 0
+            ? 'Repeated characters are easy to guess'
+            : 'Sequences and keyboard patterns (abc, 123, qwerty) are easy to guess');
+        }
+      } else {
+        costs.push(bitsPerChar);
+        runLength = 1;
+      }
+      lastStep = step;
+    }
+    return costs;
+  }
+
+  /**
+   * Charge common words found in the (lowercased, de-leeted) password as one
+   * dictionary guess instead of their characters
+   */
+  private applyDictionary(normalized: string[], costs: number[], warnings: string[]): void {
+    if (normalized.length !== costs.length) {
+      return;
+    }
+    for (const word of COMMON_PASSWORDS) {
+      if (word.length < 4) {
+        continue;
+      }
+      for (let start = 0; start + word.length <= normalized.length; start++) {
+        if (normalized.slice(start, start + word.length).join('') !== word) {
+          continue;
+        }
+        const span = costs.slice(start, start + word.length).reduce((sum, cost) => sum + cost, 0);
+        if (span > DICTIONARY_BITS) {
+          costs.fill(DICTIONARY_BITS / word.length, start, start + word.length);
+          warnings.push('Contains a common word or password');
+        }
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const passwordStrengthService = new PasswordStrengthService();
@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { cryptoRegistry } from '../core/CryptoRegistry';
+import type { EncryptPolicy, KdfParams } from '../types';
+
+/**
+ * Policy file, relative to each workspace folder. It is checked in with the
+ * workspace, so the rules apply to everyone regardless of their settings.
+ */
+export const POLICY_FILE = '.vscode/encrypt-policy.json';
+
+/**
+ * Readable KDF parameters, e.g. "pbkdf2-sha512, 210000 iterations"
+ */
+export function describeKdf(kdf: KdfParams): string {
+  switch (kdf.name) {
+    case 'pbkdf2':
+      return `pbkdf2-${kdf.digest}, ${kdf.iterations} iterations`;
+    case 'scrypt':
+      return `scrypt N=${kdf.n} r=${kdf.r} p=${kdf.p}`;
+    case 'openpgp-s2k':
+      return `openpgp-s2k-${kdf.hash}, ${kdf.count} bytes`;
+  }
+}
+
+/**
+ * Policy Service for the workspace encryption policy file
+ */
+export class PolicyService {
+  getPolicyFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(folder.uri, POLICY_FILE);
+  }
+
+  /**
+   * Read the policy of a workspace folder
+   * Returns undefined if the folder has no policy file
+   * Throws if the file is malformed
+   */
+  async getPolicy(folder: vscode.WorkspaceFolder): Promise<EncryptPolicy | undefined> {
+    let bytes: Uint8Array;
+    try {
+      bytes = await vscode.workspace.fs.readFile(this.getPolicyFileUri(folder));
+    } catch {
+      return undefined;
+    }
+    return this.parse(new TextDecoder().decode(bytes));
+  }
+
+  /**
+   * Read the policy that applies to a path (that of its workspace folder)
+   * Returns undefined outside a workspace or without a policy file
+   * Throws if the file is malformed
+   */
+  async getPolicyFor(filePath: string): Promise<EncryptPolicy | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    return folder ? this.getPolicy(folder) : undefined;
+  }
+
+  /**
+   * Check KDF parameters against the policy
+   * Returns a description of the violation, or undefined if they are allowed
+   */
+  checkKdf(policy: EncryptPolicy, kdf: KdfParams): string | undefined {
+    if (policy.minimumKdf.length === 0) {
+      return undefined;
+    }
+    const minimum = policy.minimumKdf.find(m => m.name === kdf.name);
+    if (!minimum) {
+      const allowed = policy.minimumKdf.map(m => m.name).join(', ');
+      return `Key derivation ${describeKdf(kdf)} is not allowed by the workspace policy (allowed: ${allowed})`;
+    }
+    if (cryptoRegistry.getKdf(kdf.name).isWeaker(kdf, minimum)) {
+      return `Key derivation ${describeKdf(kdf)} is below the workspace policy minimum (${describeKdf(minimum)})`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Why plaintext of a file may not be written to disk
+   * Returns undefined if it may; a malformed policy file forbids it
+   */
+  async getDecryptToFileViolation(filePath: string): Promise<string | undefined> {
+    try {
+      const policy = await this.getPolicyFor(filePath);
+      return policy && !policy.allowDecryptToFile
+        ? `Decrypting to a file is not allowed by the workspace policy (${POLICY_FILE})`
+        : undefined;
+    } catch (error) {
+      return `Cannot read the workspace policy: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * Why content of a file may not be encrypted with the given KDF parameters
+   * Returns undefined if it may; a malformed policy file forbids it
+   */
+  async getEncryptionViolation(filePath: string, kdf: KdfParams): Promise<string | undefined> {
+    try {
+      const policy = await this.getPolicyFor(filePath);
+      const violation = policy && this.checkKdf(policy, kdf);
+      return violation ? `${violation}. Adjust the encrypt.kdf settings to encrypt in this workspace.` : undefined;
+    } catch (error) {
+      return `Cannot read the workspace policy: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private parse(json: string): EncryptPolicy {
+    const name = path.basename(POLICY_FILE);
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`${name}: expected a JSON object`);
+    }
+
+    const requireEncrypted: unknown = parsed.requireEncrypted ?? [];
+    if (!Array.isArray(requireEncrypted) || requireEncrypted.some(glob => typeof glob !== 'string' || !glob)) {
+      throw new Error(`${name}: "requireEncrypted" must be an array of globs`);
+    }
+
+    const minimumKdf: unknown[] = Array.isArray(parsed.minimumKdf)
+      ? parsed.minimumKdf
+      : parsed.minimumKdf === undefined ? [] : [parsed.minimumKdf];
+    const kdfs = minimumKdf.map((kdf, index) => {
+      const label = `${name}: "minimumKdf" entry ${index + 1}`;
+      if (!kdf || typeof kdf !== 'object' || typeof (kdf as KdfParams).name !== 'string') {
+        throw new Error(`${label} must be an object with a "name"`);
+      }
+      const params = kdf as KdfParams;
+      try {
+        cryptoRegistry.getKdf(params.name);
+      } catch {
+        throw new Error(`${label} names an unknown KDF "${params.name}"`);
+      }
+      const fields = params.name === 'pbkdf2'
+        ? { digest: 'string', iterations: 'number' }
+        : params.name === 'scrypt'
+          ? { n: 'number', r: 'number', p: 'number' }
+          : { hash: 'string', count: 'number' };
+      for (const [field, type] of Object.entries(fields)) {
+        if (typeof (params as unknown as Record<string, unknown>)[field] !== type) {
+          throw new Error(`${label} needs a ${type} "${field}"`);
+        }
+      }
+      return params;
+    });
+
+    const allowDecryptToFile: unknown = parsed.allowDecryptToFile ?? true;
+    if (typeof allowDecryptToFile !== 'boolean') {
+      throw new Error(`${name}: "allowDecryptToFile" must be true or false`);
+    }
+
+    return { requireEncrypted, minimumKdf: kdfs, allowDecryptToFile };
+  }
+}
+
+// Singleton instance
+export const policyService = new PolicyService();
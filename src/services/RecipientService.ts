@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { encryptionService } from '../core/EncryptionService';
+import type { Recipient } from '../types';
+
+/**
+ * Recipient Service for the team recipients file and the local X25519 identity
+ */
+export class RecipientService {
+  /**
+   * Resolve the recipients file for a path (relative to its workspace folder)
+   * Returns undefined outside a workspace
+   */
+  getRecipientsFileUri(filePath?: string): vscode.Uri | undefined {
+    const config = vscode.workspace.getConfiguration('encrypt');
+    const setting = config.get<string>('recipientsFile', '.vscode/encrypt-recipients.json');
+    if (path.isAbsolute(setting)) {
+      return vscode.Uri.file(setting);
+    }
+    const folder = filePath
+      ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))
+      : vscode.workspace.workspaceFolders?.[0];
+    return folder ? vscode.Uri.joinPath(folder.uri, setting) : undefined;
+  }
+
+  /**
+   * Read the recipients for a path
+   * Returns an empty list if there is no recipients file
+   * Throws if the file is malformed
+   */
+  async getRecipients(filePath?: string): Promise<Recipient[]> {
+    const uri = this.getRecipientsFileUri(filePath);
+    if (!uri) {
+      return [];
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      return [];
+    }
+
+    const parsed = JSON.parse(new TextDecoder().decode(bytes));
+    const recipients: unknown = parsed?.recipients;
+    if (!Array.isArray(recipients)) {
+      throw new Error(`${path.basename(uri.fsPath)}: "recipients" must be an array`);
+    }
+    return recipients.map((entry, index) => {
+      if (typeof entry?.publicKey !== 'string' || Buffer.from(entry.publicKey, 'base64').length !== 32) {
+        throw new Error(`${path.basename(uri.fsPath)}: recipient ${index + 1} has no valid X25519 public key`);
+      }
+      return { name: typeof entry.name === 'string' ? entry.name : '', publicKey: entry.publicKey };
+    });
+  }
+
+  /**
+   * Add a recipient to the recipients file, creating it if needed
+   * Returns false if the public key is already listed
+   */
+  async addRecipient(recipient: Recipient, filePath?: string): Promise<boolean> {
+    const uri = this.getRecipientsFileUri(filePath);
+    if (!uri) {
+      throw new Error('Open a workspace folder to use a recipients file');
+    }
+
+    const recipients = await this.getRecipients(filePath);
+    if (recipients.some(r => r.publicKey === recipient.publicKey)) {
+      return false;
+    }
+    recipients.push(recipient);
+
+    const encoder = new TextEncoder();
+    await vscode.workspace.fs.writeFile(uri, encoder.encode(JSON.stringify({ recipients }, null, 2) + '\n'));
+    return true;
+  }
+
+  /**
+   * Path of the local private key (encrypt.identityFile, "~" expanded)
+   */
+  getIdentityFile(): string | undefined {
+    const setting = vscode.workspace.getConfiguration('encrypt').get<string>('identityFile', '').trim();
+    if (!setting) {
+      return undefined;
+    }
+    return setting.startsWith('~') ? path.join(os.homedir(), setting.slice(1)) : setting;
+  }
+
+  /**
+   * Read the local private key (PEM)
+   * Returns undefined if no identity file is configured
+   * Throws if it cannot be read
+   */
+  async readIdentity(): Promise<string | undefined> {
+    const identityFile = this.getIdentityFile();
+    if (!identityFile) {
+      return undefined;
+    }
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.file(identityFile));
+    const privateKey = new TextDecoder().decode(bytes);
+    // Throws if the key is not an X25519 private key
+    encryptionService.getIdentityPublicKey(privateKey);
+    return privateKey;
+  }
+}
+
+// Singleton instance
+export const recipientService = new RecipientService();
@@ -0,0 +1,366 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { cryptoRegistry } from '../core/CryptoRegistry';
+import { encryptionService, computeKeyCheck, matchesKeyCheck } from '../core/EncryptionService';
+import type { CipherImplementation } from '../core/CryptoRegistry';
+import type { StreamHeader } from '../types';
+
+/**
+ * Magic bytes of chunked binary files, followed by a version byte
+ */
+const STREAM_MAGIC = Buffer.from('VENCS', 'ascii');
+const STREAM_VERSION = 1;
+
+/**
+ * Plaintext bytes per chunk
+ */
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Upper bound for the JSON header, to reject garbage before allocating
+ */
+const MAX_HEADER_LENGTH = 64 * 1024;
+
+/**
+ * Counter (uint32) and last-chunk flag (1 byte) appended to the nonce prefix
+ */
+const NONCE_SUFFIX_LENGTH = 5;
+
+/**
+ * Raised when the password or keyfile is wrong, or the file was modified
+ */
+export class StreamAuthenticationError extends Error {
+  constructor(message = 'Decryption failed. Wrong password or modified file?') {
+    super(message);
+    this.name = 'StreamAuthenticationError';
+  }
+}
+
+/**
+ * Parsed header of a chunked binary file
+ */
+export interface ParsedStreamHeader {
+  header: StreamHeader;
+  /** Raw header bytes (magic through JSON), authenticated with every chunk */
+  raw: Buffer;
+}
+
+/**
+ * Build the nonce of a chunk: prefix || uint32 counter || last flag.
+ * The flag stops truncation at a chunk boundary; the counter stops reordering.
+ */
+function chunkNonce(prefix: Buffer, counter: number, last: boolean): Buffer {
+  const suffix = Buffer.alloc(NONCE_SUFFIX_LENGTH);
+  suffix.writeUInt32BE(counter, 0);
+  suffix[4] = last ? 1 : 0;
+  return Buffer.concat([prefix, suffix]);
+}
+
+/**
+ * Transform that encrypts fixed-size chunks. The last chunk (possibly empty)
+ * is only emitted on flush, so it can be flagged as last.
+ */
+function createChunkEncryptor(
+  cipher: CipherImplementation,
+  key: Buffer,
+  header: ParsedStreamHeader
+): Transform {
+  const prefix = Buffer.from(header.header.noncePrefix, 'base64');
+  const chunkSize = header.header.chunkSize;
+  let pending = Buffer.alloc(0);
+  let counter = 0;
+
+  const seal = (plaintext: Buffer, last: boolean): Buffer => {
+    const { ciphertext, authTag } = cipher.encrypt(key, chunkNonce(prefix, counter++, last), plaintext, header.raw);
+    return Buffer.concat([ciphertext, authTag]);
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      // Hold back the last chunk until flush so it can be flagged as last
+      while (pending.length > chunkSize) {
+        this.push(seal(pending.subarray(0, chunkSize), false));
+        pending = pending.subarray(chunkSize);
+      }
+      callback();
+    },
+    flush(callback) {
+      callback(null, seal(pending, true));
+    }
+  });
+}
+
+/**
+ * Transform that authenticates and decrypts chunks after the header
+ */
+function createChunkDecryptor(
+  cipher: CipherImplementation,
+  key: Buffer,
+  header: ParsedStreamHeader
+): Transform {
+  // With a matching key verifier a failing chunk can only mean modified data
+  const failure = header.header.keyCheck
+    ? 'Encrypted file was modified or corrupted'
+    : undefined;
+  const prefix = Buffer.from(header.header.noncePrefix, 'base64');
+  const sealedSize = header.header.chunkSize + cipher.authTagLength;
+  let pending = Buffer.alloc(0);
+  let counter = 0;
+
+  const open = (sealed: Buffer, last: boolean): Buffer => {
+    if (sealed.length < cipher.authTagLength) {
+      throw new StreamAuthenticationError('Encrypted file is truncated');
+    }
+    const tagStart = sealed.length - cipher.authTagLength;
+    try {
+      return cipher.decrypt(
+        key,
+        chunkNonce(prefix, counter++, last),
+        sealed.subarray(0, tagStart),
+        sealed.subarray(tagStart),
+        header.raw
+      );
+    } catch {
+      throw new StreamAuthenticationError(failure);
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+      try {
+        // The last chunk is only known at the end of input
+        while (pending.length > sealedSize) {
+          this.push(open(pending.subarray(0, sealedSize), false));
+          pending = pending.subarray(sealedSize);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        callback(null, open(pending, true));
+      } catch (error) {
+        callback(error as Error);
+      }
+    }
+  });
+}
+
+/**
+ * Stream Encryption Service for arbitrary (binary) files.
+ *
+ * Layout: "VENCS" | version (1 byte) | header length (uint32 BE) | JSON header |
+ * chunks of `chunkSize` plaintext bytes, each sealed as ciphertext || tag.
+ * Files are processed chunk by chunk, so memory use does not grow with file size.
+ */
+export class StreamEncryptionService {
+  /**
+   * Check whether bytes start with the chunked binary format magic
+   */
+  isStreamFormat(bytes: Uint8Array): boolean {
+    return bytes.length >= STREAM_MAGIC.length + 1 &&
+      STREAM_MAGIC.equals(Buffer.from(bytes.subarray(0, STREAM_MAGIC.length))) &&
+      bytes[STREAM_MAGIC.length] === STREAM_VERSION;
+  }
+
+  /**
+   * Check whether a file on disk uses the chunked binary format
+   */
+  async isStreamFile(filePath: string): Promise<boolean> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const probe = Buffer.alloc(STREAM_MAGIC.length + 1);
+      const { bytesRead } = await handle.read(probe, 0, probe.length, 0);
+      return this.isStreamFormat(probe.subarray(0, bytesRead));
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Read the header of a chunked binary file
+   * Throws if the file is not in the chunked binary format
+   */
+  async readHeader(filePath: string): Promise<ParsedStreamHeader> {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+      const prefixLength = STREAM_MAGIC.length + 1 + 4;
+      const prefix = Buffer.alloc(prefixLength);
+      const { bytesRead } = await handle.read(prefix, 0, prefixLength, 0);
+      if (bytesRead < prefixLength || !this.isStreamFormat(prefix)) {
+        throw new Error('Not an encrypted binary file');
+      }
+
+      const headerLength = prefix.readUInt32BE(STREAM_MAGIC.length + 1);
+      if (headerLength > MAX_HEADER_LENGTH) {
+        throw new Error('Invalid encrypted file header');
+      }
+      const json = Buffer.alloc(headerLength);
+      const read = await handle.read(json, 0, headerLength, prefixLength);
+      if (read.bytesRead < headerLength) {
+        throw new Error('Encrypted file is truncated');
+      }
+
+      let header: StreamHeader;
+      try {
+        header = JSON.parse(json.toString('utf8'));
+      } catch {
+        throw new Error('Invalid encrypted file header');
+      }
+      if (!Number.isInteger(header.chunkSize) || header.chunkSize < 1 || header.chunkSize > MAX_CHUNK_SIZE) {
+        throw new Error(`Unsupported chunk size: ${header.chunkSize}`);
+      }
+      return { header, raw: Buffer.concat([prefix, json]) };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Build a new header with the current default parameters
+   */
+  private createHeader(salt: Buffer, keyCheck: Buffer, keyId: string, hint?: string, keyfile?: boolean): ParsedStreamHeader {
+    const params = encryptionService.defaultParams;
+    const cipher = cryptoRegistry.getCipher(params.cipher);
+    const header: StreamHeader = {
+      cipher: params.cipher,
+      kdf: params.kdf,
+      keyfile: keyfile || undefined,
+      hint: hint || undefined,
+      keyId,
+      salt: salt.toString('base64'),
+      noncePrefix: crypto.randomBytes(cipher.ivLength - NONCE_SUFFIX_LENGTH).toString('base64'),
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      keyCheck: keyCheck.toString('base64')
+    };
+
+    const json = Buffer.from(JSON.stringify(header), 'utf8');
+    const lengthField = Buffer.alloc(4);
+    lengthField.writeUInt32BE(json.length, 0);
+    return { header, raw: Buffer.concat([STREAM_MAGIC, Buffer.from([STREAM_VERSION]), lengthField, json]) };
+  }
+
+  private deriveKey(header: Pick<StreamHeader, 'cipher' | 'kdf' | 'salt'>, password: string, keyfileHash?: Buffer): Promise<Buffer> {
+    return encryptionService.deriveKey(
+      password,
+      Buffer.from(header.salt, 'base64'),
+      { cipher: header.cipher, kdf: header.kdf },
+      keyfileHash
+    );
+  }
+
+  /**
+   * Encrypt a file on disk to `target`
+   * The target is written to a temporary file first and only renamed on success.
+   */
+  async encryptFile(
+    source: string,
+    target: string,
+    password: string,
+    options: { hint?: string; keyfileHash?: Buffer } = {}
+  ): Promise<void> {
+    const params = encryptionService.defaultParams;
+    const salt = crypto.randomBytes(16);
+    const key = await this.deriveKey({ ...params, salt: salt.toString('base64') }, password, options.keyfileHash);
+    const header = this.createHeader(
+      salt,
+      computeKeyCheck(key),
+      encryptionService.getKeyId(password),
+      options.hint,
+      !!options.keyfileHash
+    );
+    const cipher = cryptoRegistry.getCipher(header.header.cipher);
+
+    const encryptor = createChunkEncryptor(cipher, key, header);
+    encryptor.push(header.raw);
+    await this.writeAtomically(target, output =>
+      pipeline(fs.createReadStream(source), encryptor, output)
+    );
+  }
+
+  /**
+   * Decrypt a chunked binary file to `target`
+   * Throws StreamAuthenticationError on a wrong password or modified file;
+   * nothing is left at `target` in that case.
+   */
+  async decryptFile(
+    source: string,
+    target: string,
+    password: string,
+    keyfileHash?: Buffer
+  ): Promise<void> {
+    const { decryptor, start } = await this.openDecryptor(source, password, keyfileHash);
+    await this.writeAtomically(target, output =>
+      pipeline(fs.createReadStream(source, { start }), decryptor, output)
+    );
+  }
+
+  /**
+   * Decrypt a chunked binary file into memory (for previews)
+   * Throws if the plaintext would exceed `maxBytes`
+   */
+  async decryptToBuffer(
+    source: string,
+    password: string,
+    keyfileHash: Buffer | undefined,
+    maxBytes: number
+  ): Promise<Buffer> {
+    const { decryptor, start } = await this.openDecryptor(source, password, keyfileHash);
+    const parts: Buffer[] = [];
+    let total = 0;
+    const collect = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        total += chunk.length;
+        if (total > maxBytes) {
+          callback(new Error(`File is larger than ${Math.round(maxBytes / (1024 * 1024))} MB`));
+          return;
+        }
+        parts.push(chunk);
+        callback();
+      }
+    });
+    await pipeline(fs.createReadStream(source, { start }), decryptor, collect);
+    return Buffer.concat(parts);
+  }
+
+  private async openDecryptor(
+    source: string,
+    password: string,
+    keyfileHash?: Buffer
+  ): Promise<{ decryptor: Transform; start: number }> {
+    const header = await this.readHeader(source);
+    const cipher = cryptoRegistry.getCipher(header.header.cipher);
+    const key = await this.deriveKey(header.header, password, keyfileHash);
+    if (header.header.keyCheck && !matchesKeyCheck(key, header.header.keyCheck)) {
+      throw new StreamAuthenticationError(keyfileHash ? 'Wrong password or keyfile' : 'Wrong password');
+    }
+    return { decryptor: createChunkDecryptor(cipher, key, header), start: header.raw.length };
+  }
+
+  /**
+   * Write through a temporary file next to `target`, renaming it on success
+   */
+  private async writeAtomically(
+    target: string,
+    write: (output: fs.WriteStream) => Promise<void>
+  ): Promise<void> {
+    const temp = `${target}.${crypto.randomBytes(4).toString('hex')}.partial`;
+    try {
+      await write(fs.createWriteStream(temp, { flags: 'wx' }));
+      await fs.promises.rename(temp, target);
+    } catch (error) {
+      await fs.promises.rm(temp, { force: true });
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const streamEncryptionService = new StreamEncryptionService();
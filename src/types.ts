@@ -16,25 +16,191 @@ export interface EncryptConfiguration {
 export interface PasswordAndHint {
   password: string;
   hint: string;
+  /** Path of the keyfile combined with the password, if any */
+  keyfile?: string;
+}
+
+/**
+ * Compression applied to plaintext before encryption
+ */
+export type CompressionAlgorithm = 'deflate' | 'brotli';
+
+/**
+ * PBKDF2 key derivation parameters
+ */
+export interface Pbkdf2Params {
+  name: 'pbkdf2';
+  digest: string;
+  iterations: number;
+}
+
+/**
+ * scrypt key derivation parameters (cost N, block size r, parallelization p)
+ */
+export interface ScryptParams {
+  name: 'scrypt';
+  n: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * OpenPGP string-to-key parameters (RFC 4880 3.7.1), used to read and write
+ * gpg files. `count` is the number of bytes hashed (0 for simple and salted S2K).
+ */
+export interface OpenPgpS2kParams {
+  name: 'openpgp-s2k';
+  hash: string;
+  count: number;
+}
+
+/**
+ * Key derivation parameters recorded in the file header
+ */
+export type KdfParams = Pbkdf2Params | ScryptParams | OpenPgpS2kParams;
+
+/**
+ * Format of a file opened from another tool; saves write the same format again
+ */
+export type ExternalFormat =
+  | { name: 'age'; workFactor: number }
+  | { name: 'openssl'; iterations: number; base64: boolean }
+  | { name: 'openpgp'; armor: boolean }
+  | { name: 'mdenc' };
+
+/**
+ * Key slot: the file's random data key wrapped under one password
+ */
+export interface PasswordKeySlot {
+  id: string;
+  type: 'password';
+  label?: string;
+  hint?: string;
+  created: string;
+  cipher: string;
+  kdf: KdfParams;
+  /** Set when a keyfile must be combined with this slot's password */
+  keyfile?: boolean;
+  /** Verifier of the derived key, tells a wrong password from a modified slot */
+  keyCheck?: string;
+  /** Non-secret ID of the password, picks the matching cached password */
+  keyId?: string;
+  salt: string;
+  iv: string;
+  wrappedKey: string;
+  authTag: string;
+}
+
+/**
+ * Key slot: the file's random data key wrapped to one recipient's X25519 public key
+ * (ephemeral-static ECDH + HKDF-SHA256)
+ */
+export interface RecipientKeySlot {
+  id: string;
+  type: 'x25519';
+  label?: string;
+  created: string;
+  cipher: string;
+  /** Recipient public key (raw 32 bytes, base64) */
+  recipient: string;
+  ephemeralPublicKey: string;
+  iv: string;
+  wrappedKey: string;
+  authTag: string;
+}
+
+export type KeySlot = PasswordKeySlot | RecipientKeySlot;
+
+/**
+ * Team member listed in the workspace recipients file
+ */
+export interface Recipient {
+  name: string;
+  /** X25519 public key (raw 32 bytes, base64) */
+  publicKey: string;
+}
+
+/**
+ * Team rules from the workspace policy file (.vscode/encrypt-policy.json)
+ */
+export interface EncryptPolicy {
+  /** Globs, relative to the workspace folder, of files that must only exist encrypted */
+  requireEncrypted: string[];
+  /** Weakest KDF parameters allowed, per KDF; KDFs not listed are not allowed (empty = any) */
+  minimumKdf: KdfParams[];
+  /** Whether decrypted plaintext may be written to disk */
+  allowDecryptToFile: boolean;
 }
 
 /**
  * Encrypted file data structure (stored as JSON in .md.enc files)
+ *
+ * Version 1.0 files carry no `cipher` / `kdf` fields; they were always
+ * written with AES-256-GCM and PBKDF2-SHA512 (210000 iterations).
+ *
+ * Files with `slots` encrypt the content with a random data key that each
+ * slot wraps under a different password; they have no top-level salt or KDF.
  */
 export interface EncryptedFileData {
   version: string;
+  cipher?: string;
+  kdf?: KdfParams;
+  /** Set when a keyfile must be combined with the password */
+  keyfile?: boolean;
   hint?: string;
+  slots?: KeySlot[];
+  /** Set when the plaintext was compressed before encryption */
+  compression?: CompressionAlgorithm;
+  /** Verifier of the derived key (version 3.0+), tells a wrong password from a modified header */
+  keyCheck?: string;
+  /** Non-secret ID of the password, picks the matching cached password */
+  keyId?: string;
   ciphertext: string;
-  salt: string;
+  salt?: string;
   iv: string;
   authTag: string;
+  /**
+   * Earlier revisions, a JSON array of FileRevision encrypted on its own:
+   * with the data key for key-slot files, otherwise with the password.
+   * Not covered by the content authentication, so it is carried over as it is
+   * when the content is re-encrypted.
+   */
+  history?: EncryptedFileData;
+}
+
+/**
+ * Earlier plaintext revision of an encrypted file
+ */
+export interface FileRevision {
+  /** When this revision was saved (ISO 8601) */
+  saved: string;
+  content: string;
+}
+
+/**
+ * Whole-note file of Obsidian Meld Encrypt (.mdenc)
+ *
+ * `encodedData` is base64 of iv + salt + ciphertext + authTag for version 2.0,
+ * and of iv + ciphertext + authTag (fixed salt) for version 1.0.
+ */
+export interface MeldEncryptedFileData {
+  version: string;
+  hint: string;
+  encodedData: string;
 }
 
+/**
+ * Obsidian Meld Encrypt in-place marker versions: `🔐β `, `🔐α ` and the obsolete `%%🔐 `
+ */
+export type MeldMarkerVersion = 'beta' | 'alpha' | 'obsolete';
+
 /**
  * Password cache entry with expiration
  */
 export interface PasswordCacheEntry extends PasswordAndHint {
   timestamp: number;
+  /** Key ID of the password, once computed */
+  keyId?: string;
 }
 
 /**
@@ -65,6 +231,25 @@ export const COMMENT_PREFIX = '%%';
 export const COMMENT_SUFFIX = '%%';
 
 /**
- * Encrypted file extensions
+ * Header of chunked binary files (`<name>.<ext>.enc` for any non-Markdown file)
+ */
+export interface StreamHeader {
+  cipher: string;
+  kdf: KdfParams;
+  keyfile?: boolean;
+  hint?: string;
+  /** Non-secret ID of the password, picks the matching cached password */
+  keyId?: string;
+  salt: string;
+  /** Random nonce prefix; each chunk nonce appends a counter and a last-chunk flag */
+  noncePrefix: string;
+  /** Plaintext bytes per chunk */
+  chunkSize: number;
+  /** Verifier of the derived key, tells a wrong password from a modified file */
+  keyCheck?: string;
+}
+
+/**
+ * Encrypted file extensions: `.md.enc` holds JSON, other `.enc` files use the chunked binary format
  */
-export const ENCRYPTED_EXTENSIONS = ['.md.enc'];
+export const ENCRYPTED_EXTENSIONS = ['.md.enc', '.enc'];
@@ -1,4 +1,8 @@
 import * as vscode from 'vscode';
+import { keyfileService } from '../services/KeyfileService';
+import { passwordStrengthService } from '../services/PasswordStrengthService';
+import { passwordGeneratorService, CHARACTER_CLASSES } from '../services/PasswordGeneratorService';
+import type { CharacterClass } from '../services/PasswordGeneratorService';
 import type { PasswordAndHint } from '../types';
 
 /**
@@ -6,8 +10,15 @@ import type { PasswordAndHint } from '../types';
  */
 interface InputBoxOptionsWithValidation extends vscode.InputBoxOptions {
   validate?: (value: string) => string | null | undefined;
+  /** Adds a "Generate" button; resolves with the generated value, or undefined to return to the input */
+  onGenerate?: () => Promise<string | undefined>;
 }
 
+const GENERATE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon('sparkle'),
+  tooltip: 'Generate Password'
+};
+
 /**
  * Result from password prompt
  */
@@ -15,6 +26,8 @@ export interface PasswordPromptResult {
   confirmed: boolean;
   password: string;
   hint: string;
+  /** Path of the keyfile chosen in addition to the password */
+  keyfile?: string;
 }
 
 /**
@@ -27,14 +40,26 @@ class MultiStepInput {
   }
 
   async showInputBox(options: InputBoxOptionsWithValidation & { title?: string }): Promise<string> {
-    const validate = options.validate;
-    delete (options as any).validate;
+    const { validate, onGenerate, ...boxOptions } = options;
 
     while (true) {
-      const result = await vscode.window.showInputBox({
-        ...options,
-        ignoreFocusOut: true
-      });
+      let result: string | undefined;
+      if (onGenerate) {
+        const entered = await this.showInputBoxWithButton(boxOptions, GENERATE_BUTTON);
+        if (entered === GENERATE_BUTTON) {
+          result = await onGenerate();
+          if (result === undefined) {
+            continue;
+          }
+        } else {
+          result = entered as string | undefined;
+        }
+      } else {
+        result = await vscode.window.showInputBox({
+          ...boxOptions,
+          ignoreFocusOut: true
+        });
+      }
 
       if (result === undefined) {
         return '';
@@ -51,6 +76,62 @@ class MultiStepInput {
       return result;
     }
   }
+
+  /**
+   * Input box with a title bar button (`showInputBox` cannot show buttons)
+   * Resolves with the value, the pressed button, or undefined if cancelled
+   */
+  private showInputBoxWithButton(
+    options: vscode.InputBoxOptions,
+    button: vscode.QuickInputButton
+  ): Promise<string | vscode.QuickInputButton | undefined> {
+    return new Promise(resolve => {
+      const box = vscode.window.createInputBox();
+      box.title = options.title;
+      box.prompt = options.prompt;
+      box.placeholder = options.placeHolder;
+      box.password = options.password ?? false;
+      box.value = options.value ?? '';
+      box.buttons = [button];
+      box.ignoreFocusOut = true;
+
+      // Like showInputBox: an error message (or a plain string) blocks accepting
+      let blocked = false;
+      const updateValidation = async (value: string) => {
+        const message = (await options.validateInput?.(value)) ?? undefined;
+        if (value === box.value) {
+          box.validationMessage = message;
+          blocked = typeof message === 'string' ||
+            message?.severity === vscode.InputBoxValidationSeverity.Error;
+        }
+      };
+
+      let settled = false;
+      const disposables: vscode.Disposable[] = [];
+      const finish = (result: string | vscode.QuickInputButton | undefined) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        disposables.forEach(d => d.dispose());
+        box.dispose();
+        resolve(result);
+      };
+
+      disposables.push(
+        box.onDidChangeValue(value => updateValidation(value)),
+        box.onDidAccept(() => {
+          if (!blocked) {
+            finish(box.value);
+          }
+        }),
+        box.onDidTriggerButton(pressed => finish(pressed)),
+        box.onDidHide(() => finish(undefined))
+      );
+      box.show();
+      updateValidation(box.value);
+    });
+  }
 }
 
 /**
@@ -58,6 +139,9 @@ class MultiStepInput {
  * Collects password, confirmation, and optional hint
  */
 export class PasswordPrompt {
+  /** Character classes last chosen for generated passwords */
+  private static characterClasses: CharacterClass[] = [...CHARACTER_CLASSES.keys()];
+
   /**
    * Show password prompt for encryption
    */
@@ -65,36 +149,46 @@ export class PasswordPrompt {
     confirmPassword?: boolean;
     defaultPassword?: string;
     defaultHint?: string;
+    allowKeyfile?: boolean;
+    defaultKeyfile?: string;
+    /** Ask for a hint (default true); formats without a hint field turn it off */
+    allowHint?: boolean;
   }): Promise<PasswordPromptResult> {
     const result: PasswordPromptResult = {
       confirmed: false,
       password: options.defaultPassword ?? '',
-      hint: options.defaultHint ?? ''
+      hint: options.defaultHint ?? '',
+      keyfile: options.defaultKeyfile
     };
 
     const confirmPassword = options.confirmPassword ?? true;
+    let generated: string | undefined;
 
     await MultiStepInput.run(async (input) => {
-      // Step 1: Enter password
-      result.password = await input.showInputBox({
-        title: confirmPassword ? 'Enter Password (1/2)' : 'Enter Password',
-        password: true,
-        prompt: 'Enter a password to encrypt',
-        value: result.password,
-        validate: (value: string) => {
-          if (!value || value.length < 1) {
-            return 'Password cannot be empty';
+      // Step 1: Enter or generate password (asked again if a weak one is declined)
+      do {
+        result.password = await input.showInputBox({
+          title: confirmPassword ? 'Enter Password (1/2)' : 'Enter Password',
+          password: true,
+          prompt: 'Enter a password to encrypt, or generate one',
+          value: result.password,
+          onGenerate: async () => (generated = await PasswordPrompt.showGenerator()),
+          validateInput: (value: string) => PasswordPrompt.describeStrength(value),
+          validate: (value: string) => {
+            if (!value || value.length < 1) {
+              return 'Password cannot be empty';
+            }
+            return PasswordPrompt.blockingViolation(value);
           }
-          return null;
-        }
-      });
+        });
 
-      if (!result.password) {
-        return;
-      }
+        if (!result.password) {
+          return;
+        }
+      } while (!await PasswordPrompt.acceptPolicy(result.password));
 
-      // Step 2: Confirm password (if required)
-      if (confirmPassword) {
+      // Step 2: Confirm password (if required; a generated one cannot be mistyped)
+      if (confirmPassword && result.password !== generated) {
         const confirmed = await input.showInputBox({
           title: 'Confirm Password (2/2)',
           password: true,
@@ -114,11 +208,22 @@ export class PasswordPrompt {
       }
 
       // Step 3: Optional hint
-      result.hint = await input.showInputBox({
-        title: 'Password Hint (Optional)',
-        prompt: 'Enter a hint to help you remember the password',
-        value: result.hint
-      });
+      if (options.allowHint ?? true) {
+        result.hint = await input.showInputBox({
+          title: 'Password Hint (Optional)',
+          prompt: 'Enter a hint to help you remember the password',
+          value: result.hint
+        });
+      }
+
+      // Step 4: Optional keyfile
+      if (options.allowKeyfile) {
+        const keyfile = await PasswordPrompt.showKeyfileStep(result.keyfile);
+        if (keyfile === null) {
+          return;
+        }
+        result.keyfile = keyfile;
+      }
 
       result.confirmed = true;
     });
@@ -126,12 +231,198 @@ export class PasswordPrompt {
     return result;
   }
 
+  /**
+   * Live strength meter shown under a new password as it is typed
+   */
+  private static describeStrength(value: string): vscode.InputBoxValidationMessage | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const strength = passwordStrengthService.estimate(value);
+    const violation = passwordStrengthService.checkPolicy(value, strength);
+    const details = violation ?? strength.warnings[0];
+    const message = `Strength: ${passwordStrengthService.formatMeter(strength)} ${strength.label} ` +
+      `(~${strength.entropy} bits)${details ? ` — ${details}` : ''}`;
+
+    let severity = vscode.InputBoxValidationSeverity.Info;
+    if (violation) {
+      severity = passwordStrengthService.currentPolicy.enforcement === 'block'
+        ? vscode.InputBoxValidationSeverity.Error
+        : vscode.InputBoxValidationSeverity.Warning;
+    }
+    return { message, severity };
+  }
+
+  /**
+   * Policy violation that rejects the password (`block` enforcement only)
+   */
+  private static blockingViolation(value: string): string | null {
+    if (passwordStrengthService.currentPolicy.enforcement !== 'block') {
+      return null;
+    }
+    return passwordStrengthService.checkPolicy(value) ?? null;
+  }
+
+  /**
+   * Ask before using a password that falls short of the policy (`warn` enforcement)
+   * Returns false if the user wants to choose another password
+   */
+  private static async acceptPolicy(password: string): Promise<boolean> {
+    const violation = passwordStrengthService.checkPolicy(password);
+    if (!violation) {
+      return true;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      violation,
+      {
+        modal: true,
+        detail: 'Encrypted files can be attacked offline, so a weak password may be guessed. Use it anyway?'
+      },
+      'Use Anyway'
+    );
+    return choice === 'Use Anyway';
+  }
+
+  /**
+   * Generate a random password or diceware passphrase
+   * Returns the password to use, or undefined to go back to the input
+   */
+  private static async showGenerator(): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('encrypt');
+    const length = config.get<number>('generator.passwordLength', 20);
+    const words = config.get<number>('generator.passphraseWords', 6);
+    const clearAfter = config.get<number>('generator.clipboardClearSeconds', 30);
+
+    const kind = await vscode.window.showQuickPick([
+      {
+        label: '$(symbol-key) Random Password',
+        description: `${length} characters from the classes you choose`,
+        value: 'password' as const
+      },
+      {
+        label: '$(book) Diceware Passphrase',
+        description: `${words} words from the EFF wordlist, easier to type and remember`,
+        value: 'passphrase' as const
+      }
+    ], { title: 'Generate Password', ignoreFocusOut: true });
+    if (!kind) {
+      return undefined;
+    }
+
+    let generate = () => passwordGeneratorService.generatePassphrase(words);
+    if (kind.value === 'password') {
+      const classes = await vscode.window.showQuickPick(
+        [...CHARACTER_CLASSES].map(([name, chars]) => ({
+          label: name.charAt(0).toUpperCase() + name.slice(1),
+          description: chars,
+          picked: PasswordPrompt.characterClasses.includes(name),
+          value: name
+        })),
+        { title: 'Character Classes', canPickMany: true, ignoreFocusOut: true }
+      );
+      if (!classes || classes.length === 0) {
+        return undefined;
+      }
+      PasswordPrompt.characterClasses = classes.map(item => item.value);
+      generate = () => passwordGeneratorService.generatePassword(length, PasswordPrompt.characterClasses);
+    }
+
+    while (true) {
+      const { password, entropy } = generate();
+      const choice = await vscode.window.showQuickPick([
+        { label: '$(check) Use This Password', detail: password, value: 'use' },
+        {
+          label: '$(copy) Use and Copy to Clipboard',
+          description: clearAfter > 0 ? `Clipboard is cleared after ${clearAfter} s` : undefined,
+          value: 'copy'
+        },
+        { label: '$(refresh) Generate Another', value: 'again' }
+      ], {
+        title: `Generated Password (${entropy} bits)`,
+        placeHolder: 'Keep a copy in a password manager: a lost password cannot be recovered',
+        ignoreFocusOut: true
+      });
+
+      if (!choice) {
+        return undefined;
+      }
+      if (choice.value === 'again') {
+        continue;
+      }
+      if (choice.value === 'copy') {
+        await PasswordPrompt.copyToClipboard(password, clearAfter);
+      }
+      return password;
+    }
+  }
+
+  /**
+   * Copy a password and clear the clipboard after `seconds` (0 keeps it),
+   * unless something else has been copied since
+   */
+  private static async copyToClipboard(password: string, seconds: number): Promise<void> {
+    await vscode.env.clipboard.writeText(password);
+    if (seconds <= 0) {
+      return;
+    }
+    vscode.window.setStatusBarMessage(`$(copy) Password copied, clipboard is cleared in ${seconds} s`, seconds * 1000);
+    setTimeout(async () => {
+      if (await vscode.env.clipboard.readText() === password) {
+        await vscode.env.clipboard.writeText('');
+      }
+    }, seconds * 1000);
+  }
+
+  /**
+   * Ask whether to combine the password with a keyfile
+   * Returns the keyfile path, undefined for password only, or null if cancelled
+   */
+  private static async showKeyfileStep(defaultKeyfile?: string): Promise<string | undefined | null> {
+    const items: (vscode.QuickPickItem & { value: 'none' | 'current' | 'pick' })[] = [
+      {
+        label: '$(key) Password Only',
+        description: 'Unlock with the password alone',
+        value: 'none'
+      },
+      {
+        label: '$(file-symlink-file) Password + Keyfile…',
+        description: 'Also require a local keyfile to unlock',
+        value: 'pick'
+      }
+    ];
+    if (defaultKeyfile) {
+      items.splice(1, 0, {
+        label: '$(file) Password + Current Keyfile',
+        description: defaultKeyfile,
+        value: 'current'
+      });
+    }
+
+    const choice = await vscode.window.showQuickPick(items, {
+      title: 'Keyfile (Optional)',
+      placeHolder: 'Without the keyfile, the password alone cannot decrypt the file',
+      ignoreFocusOut: true
+    });
+
+    if (!choice) {
+      return null;
+    }
+    if (choice.value === 'none') {
+      return undefined;
+    }
+    if (choice.value === 'current') {
+      return defaultKeyfile;
+    }
+    return (await keyfileService.pick()) ?? null;
+  }
+
   /**
    * Show password prompt for decryption
    */
   static async showForDecryption(options: {
     hint?: string;
     defaultPassword?: string;
+    title?: string;
   }): Promise<PasswordAndHint | null> {
     const hint = options.hint ?? '';
     const defaultPassword = options.defaultPassword ?? '';
@@ -142,7 +433,7 @@ export class PasswordPrompt {
 
     while (true) {
       const password = await vscode.window.showInputBox({
-        title: 'Decrypt',
+        title: options.title ?? 'Decrypt',
         password: true,
         prompt,
         value: defaultPassword,
@@ -172,6 +463,8 @@ export class PasswordPrompt {
       new: { password: '', hint: '' } as PasswordAndHint
     };
 
+    let generated: string | undefined;
+
     await MultiStepInput.run(async (input) => {
       // Step 1: Enter current password
       result.current.password = await input.showInputBox({
@@ -192,42 +485,49 @@ export class PasswordPrompt {
         return;
       }
 
-      // Step 2: Enter new password
-      result.new.password = await input.showInputBox({
-        title: 'Change Password - Enter New Password (2/4)',
-        password: true,
-        prompt: 'Enter a new password',
-        validate: (value: string) => {
-          if (!value || value.length < 1) {
-            return 'Password cannot be empty';
-          }
-          if (value === result.current.password) {
-            return 'New password must be different from current password';
+      // Step 2: Enter or generate new password (asked again if a weak one is declined)
+      do {
+        result.new.password = await input.showInputBox({
+          title: 'Change Password - Enter New Password (2/4)',
+          password: true,
+          prompt: 'Enter a new password, or generate one',
+          value: result.new.password,
+          onGenerate: async () => (generated = await PasswordPrompt.showGenerator()),
+          validateInput: (value: string) => PasswordPrompt.describeStrength(value),
+          validate: (value: string) => {
+            if (!value || value.length < 1) {
+              return 'Password cannot be empty';
+            }
+            if (value === result.current.password) {
+              return 'New password must be different from current password';
+            }
+            return PasswordPrompt.blockingViolation(value);
           }
-          return null;
-        }
-      });
+        });
 
-      if (!result.new.password) {
-        return;
-      }
+        if (!result.new.password) {
+          return;
+        }
+      } while (!await PasswordPrompt.acceptPolicy(result.new.password));
 
-      // Step 3: Confirm new password
-      const confirmed = await input.showInputBox({
-        title: 'Change Password - Confirm New Password (3/4)',
-        password: true,
-        prompt: 'Confirm your new password',
-        validate: (value: string) => {
-          if (value !== result.new.password) {
-            return 'Passwords do not match';
+      // Step 3: Confirm new password (a generated one cannot be mistyped)
+      if (result.new.password !== generated) {
+        const confirmed = await input.showInputBox({
+          title: 'Change Password - Confirm New Password (3/4)',
+          password: true,
+          prompt: 'Confirm your new password',
+          validate: (value: string) => {
+            if (value !== result.new.password) {
+              return 'Passwords do not match';
+            }
+            return null;
           }
-          return null;
-        }
-      });
+        });
 
-      if (!confirmed) {
-        result.new.password = '';
-        return;
+        if (!confirmed) {
+          result.new.password = '';
+          return;
+        }
       }
 
       // Step 4: Optional hint
@@ -0,0 +1,14 @@
+import { parentPort, workerData } from 'worker_threads';
+import { cryptoRegistry } from '../core/CryptoRegistry';
+import type { KdfJob } from '../core/KeyDerivationService';
+
+/**
+ * Worker thread entry point: derives one key and posts it back.
+ * Runs the synchronous KDFs here so the extension host stays responsive.
+ */
+const job = workerData as KdfJob;
+const secret = typeof job.secret === 'string' ? job.secret : Buffer.from(job.secret);
+const key = cryptoRegistry
+  .getKdf(job.params.name)
+  .deriveKey(secret, Buffer.from(job.salt), job.params, job.keyLength);
+parentPort!.postMessage(key);